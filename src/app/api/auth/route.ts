@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticate,
+  verifyLogin,
+  createSessionToken,
+  hasUsers,
+  isAuthDisabled,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+} from '@/lib/auth';
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1).max(100),
+  password: z.string().min(1).max(200),
+});
+
+// 当前登录状态（不需要认证，未登录时返回 401 供前端显示登录页）
+export async function GET(req: NextRequest) {
+  const principal = await authenticate(req);
+  if (!principal) {
+    const setupRequired = !(await hasUsers());
+    return Response.json({
+      error: setupRequired ? '未配置管理员账号，请设置 ADMIN_USERNAME 和 ADMIN_PASSWORD 后重启' : '未登录',
+      setupRequired,
+    }, { status: 401 });
+  }
+  return Response.json({ user: principal, authDisabled: isAuthDisabled() });
+}
+
+// 登录，成功后写入会话 Cookie
+export async function POST(req: NextRequest) {
+  let credentials: z.infer<typeof loginSchema>;
+  try {
+    credentials = loginSchema.parse(await req.json());
+  } catch {
+    return Response.json({ error: '请输入用户名和密码' }, { status: 400 });
+  }
+
+  const user = await verifyLogin(credentials.username, credentials.password);
+  if (!user) {
+    console.warn(`[Auth] 登录失败: ${credentials.username}`);
+    return Response.json({ error: '用户名或密码错误' }, { status: 401 });
+  }
+
+  const response = NextResponse.json({ user: { type: 'session', username: user.username, role: user.role } });
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(user.username), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: req.nextUrl.protocol === 'https:',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+  return response;
+}
+
+// 退出登录
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
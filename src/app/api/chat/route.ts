@@ -1,46 +1,133 @@
 import { z } from 'zod';
 import { NextRequest } from 'next/server';
-import { queryRag } from '@/lib/rag';
+import { queryRag, streamRag, RagStreamEvent } from '@/lib/rag';
+import type { TokenUsage } from '@/lib/llm';
+import { findCollection, DEFAULT_COLLECTION_ID } from '@/lib/vector-store';
+import { withAuth } from '@/lib/auth';
+import { acquireChatQuota, recordTokenUsage, getUsageSubject } from '@/lib/usage';
+
+// 接受 "2024-05-01" 或完整的 ISO 时间
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), { message: 'Invalid date' });
 
 const chatSchema = z.object({
   message: z.string().min(1).max(2000),
+  collectionId: z.string().default(DEFAULT_COLLECTION_ID),
   topK: z.number().min(1).max(20).optional(),
+  stream: z.boolean().optional(),
+  mode: z.enum(['vector', 'keyword', 'hybrid']).optional(),
+  filter: z.object({
+    docIds: z.array(z.string()).max(500).optional(),
+    fileTypes: z.array(z.string()).max(20).optional(),
+    uploadedAfter: isoDate.optional(),
+    uploadedBefore: isoDate.optional(),
+  }).optional(),
+  history: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string().max(8000),
+  })).max(50).optional(),
 });
 
-export async function POST(req: NextRequest) {
+// 解析错误信息，提供更友好的提示
+function getFriendlyErrorMessage(error: unknown): string {
+  let errorMessage = '请求处理失败';
+  const errorStr = error instanceof Error ? error.message : String(error);
+
+  if (errorStr.includes('AllocationQuota.FreeTierOnly') || errorStr.includes('free tier')) {
+    errorMessage = '⚠️ 当前模型的免费额度已用完，请切换到其他模型或在阿里云控制台开通付费模式。';
+  } else if (errorStr.includes('InvalidApiKey') || errorStr.includes('Unauthorized')) {
+    errorMessage = '⚠️ API Key 无效或已过期，请检查 DASHSCOPE_API_KEY 配置。';
+  } else if (errorStr.includes('RateLimitExceeded')) {
+    errorMessage = '⚠️ 请求过于频繁，请稍后再试。';
+  } else if (errorStr.includes('ModelNotFound')) {
+    errorMessage = '⚠️ 模型不存在或未开通，请在阿里云控制台确认模型权限。';
+  }
+
+  return errorMessage;
+}
+
+// 以 Server-Sent Events 形式返回：chunks → delta... → done（出错时发送 error）
+function streamResponse(events: AsyncGenerator<RagStreamEvent>): Response {
+  const encoder = new TextEncoder();
+  const send = (event: string, data: unknown) =>
+    encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const event of events) {
+          const { type, ...data } = event;
+          controller.enqueue(send(type, data));
+        }
+      } catch (error) {
+        console.error('Chat stream error:', error);
+        controller.enqueue(send('error', { answer: getFriendlyErrorMessage(error) }));
+      } finally {
+        controller.close();
+      }
+    },
+    async cancel() {
+      // 客户端断开时停止生成
+      await events.return(undefined);
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+export const POST = withAuth(async (req: NextRequest, _context, principal) => {
   try {
     const body = await req.json();
-    const { message, topK } = chatSchema.parse(body);
+    const { message, collectionId, topK, stream, history, mode, filter } = chatSchema.parse(body);
+
+    if (!(await findCollection(collectionId))) {
+      return Response.json({ answer: '知识库不存在或已被删除', chunks: [], citations: [], suggestedQuestions: [] }, { status: 404 });
+    }
+
+    // 在调用嵌入和大模型接口之前限流，超出时返回 429 和 Retry-After
+    const subject = getUsageSubject(req, principal);
+    const quota = await acquireChatQuota(subject);
+    if (!quota.allowed) {
+      console.warn(`[Chat] ${subject} 超出限制: ${quota.message}`);
+      return Response.json(
+        { answer: quota.message, chunks: [], citations: [], suggestedQuestions: [] },
+        { status: 429, headers: { 'Retry-After': String(quota.retryAfter) } },
+      );
+    }
+
+    // 问答结束（包括客户端中途断开和出错）时把 token 用量计入调用方的每日配额
+    const onUsage = (usage: TokenUsage) => {
+      recordTokenUsage(subject, usage.totalTokens).catch(error => console.error('[Chat] 记录用量失败:', error));
+    };
+    const options = { topK, history, mode, filter, collectionId, principal, onUsage };
+    if (stream) {
+      return streamResponse(streamRag(message, options));
+    }
+
+    const result = await queryRag(message, options);
 
-    const result = await queryRag(message, topK);
-    
-    // 返回包含答案、引用片段和推荐问题的 JSON
+    // 返回包含答案、引用片段、实际引用的片段编号、推荐问题和 token 用量的 JSON；来自答案缓存时附带 cache
     return Response.json({
       answer: result.answer,
       chunks: result.chunks,
+      citations: result.citations,
       suggestedQuestions: result.suggestedQuestions,
+      usage: result.usage,
+      cache: result.cache,
     });
   } catch (error) {
     console.error('Chat error:', error);
-    
-    // 解析错误信息，提供更友好的提示
-    let errorMessage = '请求处理失败';
-    const errorStr = error instanceof Error ? error.message : String(error);
-    
-    if (errorStr.includes('AllocationQuota.FreeTierOnly') || errorStr.includes('free tier')) {
-      errorMessage = '⚠️ 当前模型的免费额度已用完，请切换到其他模型或在阿里云控制台开通付费模式。';
-    } else if (errorStr.includes('InvalidApiKey') || errorStr.includes('Unauthorized')) {
-      errorMessage = '⚠️ API Key 无效或已过期，请检查 DASHSCOPE_API_KEY 配置。';
-    } else if (errorStr.includes('RateLimitExceeded')) {
-      errorMessage = '⚠️ 请求过于频繁，请稍后再试。';
-    } else if (errorStr.includes('ModelNotFound')) {
-      errorMessage = '⚠️ 模型不存在或未开通，请在阿里云控制台确认模型权限。';
-    }
-    
-    return Response.json({ 
-      answer: errorMessage,
+
+    return Response.json({
+      answer: getFriendlyErrorMessage(error),
       chunks: [],
+      citations: [],
       suggestedQuestions: [],
     }, { status: 500 });
   }
-}
+});
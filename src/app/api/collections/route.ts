@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { NextRequest } from 'next/server';
+import {
+  listCollections,
+  createCollection,
+  renameCollection,
+  deleteCollection,
+  DEFAULT_COLLECTION_ID,
+} from '@/lib/vector-store';
+import { withAuth } from '@/lib/auth';
+
+const nameSchema = z.string().trim().min(1).max(50);
+
+// 获取所有知识库
+export const GET = withAuth(async () => {
+  return Response.json({ collections: await listCollections() });
+});
+
+// 新建知识库
+export const POST = withAuth(async (req: NextRequest) => {
+  try {
+    const { name } = z.object({ name: nameSchema }).parse(await req.json());
+    const collection = await createCollection(name);
+    return Response.json({ success: true, collection });
+  } catch (error) {
+    console.error('Collections API error:', error);
+    return Response.json({ error: '创建知识库失败，名称需为 1-50 个字符' }, { status: 400 });
+  }
+}, { role: 'admin' });
+
+// 重命名知识库
+export const PATCH = withAuth(async (req: NextRequest) => {
+  try {
+    const { id, name } = z.object({ id: z.string(), name: nameSchema }).parse(await req.json());
+    const collection = await renameCollection(id, name);
+    if (!collection) {
+      return Response.json({ error: '知识库不存在' }, { status: 404 });
+    }
+    return Response.json({ success: true, collection });
+  } catch (error) {
+    console.error('Collections API error:', error);
+    return Response.json({ error: '重命名失败，名称需为 1-50 个字符' }, { status: 400 });
+  }
+}, { role: 'admin' });
+
+// 删除知识库（默认知识库只能清空，不能删除）
+export const DELETE = withAuth(async (req: NextRequest) => {
+  const id = req.nextUrl.searchParams.get('id');
+  if (!id) {
+    return Response.json({ error: '缺少知识库 ID' }, { status: 400 });
+  }
+  if (id === DEFAULT_COLLECTION_ID) {
+    return Response.json({ error: '默认知识库不能删除' }, { status: 400 });
+  }
+
+  const deleted = await deleteCollection(id);
+  if (!deleted) {
+    return Response.json({ error: '知识库不存在' }, { status: 404 });
+  }
+  return Response.json({ success: true });
+}, { role: 'admin' });
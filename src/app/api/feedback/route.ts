@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { readFile, writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
+import { withAuth, isAdmin, forbidden } from '@/lib/auth';
 
 export interface FeedbackRecord {
   id: string;
@@ -53,7 +54,7 @@ async function saveFeedbackData(data: FeedbackData): Promise<void> {
 }
 
 // POST - 提交反馈
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { messageId, question, answer, chunks, feedbackType, topK } = body;
@@ -116,10 +117,10 @@ export async function POST(request: NextRequest) {
     console.error('[Feedback] 记录失败:', error);
     return NextResponse.json({ error: '记录反馈失败' }, { status: 500 });
   }
-}
+});
 
 // DELETE - 取消反馈
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const messageId = searchParams.get('messageId');
@@ -152,13 +153,16 @@ export async function DELETE(request: NextRequest) {
     console.error('[Feedback] 取消失败:', error);
     return NextResponse.json({ error: '取消反馈失败' }, { status: 500 });
   }
-}
+});
 
-// GET - 获取反馈统计和报告
-export async function GET(request: NextRequest) {
+// GET - 获取反馈统计和报告（报告和导出包含所有人的问答，仅管理员可用）
+export const GET = withAuth(async (request: NextRequest, _context, principal) => {
   try {
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type') || 'stats';
+    if (type !== 'stats' && !isAdmin(principal)) {
+      return forbidden();
+    }
 
     const data = await loadFeedbackData();
 
@@ -248,5 +252,5 @@ export async function GET(request: NextRequest) {
     console.error('[Feedback] 获取失败:', error);
     return NextResponse.json({ error: '获取反馈数据失败' }, { status: 500 });
   }
-}
+});
 
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { getIngestJob, cancelIngestJob } from '@/lib/ingest-jobs';
+import { withAuth } from '@/lib/auth';
+
+// 查询任务状态：阶段、片段进度、错误信息
+export const GET = withAuth(async (_req: NextRequest, { params }: { params: { id: string } }) => {
+  const job = getIngestJob(params.id);
+  if (!job) {
+    return Response.json({ error: '任务不存在或已过期' }, { status: 404 });
+  }
+  return Response.json({ job });
+}, { role: 'admin' });
+
+// 取消任务
+export const DELETE = withAuth(async (_req: NextRequest, { params }: { params: { id: string } }) => {
+  const job = cancelIngestJob(params.id);
+  if (!job) {
+    return Response.json({ error: '任务不存在或已过期' }, { status: 404 });
+  }
+  return Response.json({ success: true, job });
+}, { role: 'admin' });
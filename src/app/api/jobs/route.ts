@@ -0,0 +1,9 @@
+import { NextRequest } from 'next/server';
+import { listIngestJobs } from '@/lib/ingest-jobs';
+import { withAuth } from '@/lib/auth';
+
+// 列出入库任务，可按知识库过滤
+export const GET = withAuth(async (req: NextRequest) => {
+  const collectionId = req.nextUrl.searchParams.get('collectionId') || undefined;
+  return Response.json({ jobs: listIngestJobs(collectionId) });
+}, { role: 'admin' });
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { NextRequest } from 'next/server';
+import { withAuth, listApiKeys, createApiKey, revokeApiKey, Principal } from '@/lib/auth';
+
+const createSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  role: z.enum(['admin', 'reader']).default('reader'),
+});
+
+// API Key 只能由管理员在登录会话中管理，避免泄露的密钥再签发新密钥
+function requireSession(principal: Principal): Response | null {
+  return principal.type === 'apiKey'
+    ? Response.json({ error: '请登录后在网页中管理 API Key' }, { status: 403 })
+    : null;
+}
+
+// 获取 API Key 列表
+export const GET = withAuth(async (_req, _context, principal) => {
+  const denied = requireSession(principal);
+  if (denied) return denied;
+  return Response.json({ apiKeys: await listApiKeys() });
+}, { role: 'admin' });
+
+// 新建 API Key，明文只在此次响应中返回
+export const POST = withAuth(async (req: NextRequest, _context, principal) => {
+  const denied = requireSession(principal);
+  if (denied) return denied;
+  try {
+    const { name, role } = createSchema.parse(await req.json());
+    return Response.json({ success: true, ...await createApiKey(name, role, principal.username) });
+  } catch (error) {
+    console.error('Keys API error:', error);
+    return Response.json({ error: '创建失败，名称需为 1-50 个字符' }, { status: 400 });
+  }
+}, { role: 'admin' });
+
+// 吊销 API Key
+export const DELETE = withAuth(async (req: NextRequest, _context, principal) => {
+  const denied = requireSession(principal);
+  if (denied) return denied;
+  const id = req.nextUrl.searchParams.get('id');
+  if (!id) {
+    return Response.json({ error: '缺少 API Key ID' }, { status: 400 });
+  }
+  if (!(await revokeApiKey(id))) {
+    return Response.json({ error: 'API Key 不存在' }, { status: 404 });
+  }
+  return Response.json({ success: true });
+}, { role: 'admin' });
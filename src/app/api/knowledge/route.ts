@@ -1,38 +1,110 @@
+import { z } from 'zod';
 import { NextRequest } from 'next/server';
-import { getKnowledgeBaseStats, clearKnowledgeBase, deleteDocument, setRagConfig, getRagConfig } from '@/lib/vector-store';
+import {
+  getKnowledgeBaseStats,
+  clearKnowledgeBase,
+  deleteDocument,
+  setRagConfig,
+  setDocumentAccess,
+  normalizeDocumentAccess,
+  findCollection,
+  listCollections,
+  DEFAULT_COLLECTION_ID,
+} from '@/lib/vector-store';
+import { getAvailableModels } from '@/lib/llm';
+import { withAuth, canViewDocument } from '@/lib/auth';
 
-// 获取知识库状态
-export async function GET() {
-  const stats = getKnowledgeBaseStats();
-  return Response.json(stats);
+const accessSchema = z.object({
+  docId: z.string(),
+  users: z.array(z.string().max(50)).max(200).optional(),
+  groups: z.array(z.string().max(50)).max(200).optional(),
+});
+
+// 只接受已知的配置项，数值需在设置面板允许的范围内；错误的值会影响整个知识库的检索
+const configSchema = z.object({
+  topK: z.number().int().min(1).max(20),
+  chunkSize: z.number().int().min(100).max(8192),
+  chunkOverlap: z.number().int().min(0).max(2000),
+  model: z.string().trim().min(1).max(100),
+  temperature: z.number().min(0).max(2),
+  historyTokenBudget: z.number().int().min(0).max(32000),
+  retrievalMode: z.enum(['vector', 'keyword', 'hybrid']),
+  hybridAlpha: z.number().min(0).max(1),
+  reranker: z.enum(['none', 'dashscope', 'llm', 'local']),
+  rerankCandidateMultiplier: z.number().int().min(1).max(20),
+  minScore: z.number().min(0).max(1),
+  answerCacheThreshold: z.number().min(0).max(1),
+}).partial().strict();
+
+function collectionNotFound() {
+  return Response.json({ error: '知识库不存在' }, { status: 404 });
 }
 
+// 获取知识库状态，文档列表只包含调用方可见的文档
+export const GET = withAuth(async (req: NextRequest, _context, principal) => {
+  const collectionId = req.nextUrl.searchParams.get('collectionId') || DEFAULT_COLLECTION_ID;
+  if (!(await findCollection(collectionId))) {
+    return collectionNotFound();
+  }
+
+  const stats = await getKnowledgeBaseStats(collectionId, meta => canViewDocument(meta, principal));
+  return Response.json({ ...stats, collections: await listCollections(), models: getAvailableModels() });
+});
+
 // 更新配置或删除文档
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest) => {
   try {
     const body = await req.json();
+    const collectionId: string = body.collectionId || DEFAULT_COLLECTION_ID;
+    if (!(await findCollection(collectionId))) {
+      return collectionNotFound();
+    }
     
     // 更新 RAG 配置
     if (body.action === 'updateConfig') {
-      const config = setRagConfig(body.config);
+      const parsed = configSchema.safeParse(body.config);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return Response.json({ error: `配置参数错误: ${issue.path.join('.') || issue.message}` }, { status: 400 });
+      }
+      const config = await setRagConfig(parsed.data, collectionId);
       return Response.json({ success: true, config });
     }
     
     // 删除单个文档
     if (body.action === 'deleteDocument' && body.docId) {
-      const result = await deleteDocument(body.docId);
+      const result = await deleteDocument(body.docId, collectionId);
       return Response.json(result);
     }
+
+    // 修改文档的可见范围，账号和分组都为空时所有人可见
+    if (body.action === 'updateAccess') {
+      const parsed = accessSchema.safeParse(body);
+      if (!parsed.success) {
+        return Response.json({ error: '可见范围格式错误' }, { status: 400 });
+      }
+      const { docId, users, groups } = parsed.data;
+      const document = await setDocumentAccess(docId, normalizeDocumentAccess(users, groups), collectionId);
+      if (!document) {
+        return Response.json({ error: '文档不存在' }, { status: 404 });
+      }
+      return Response.json({ success: true, document });
+    }
     
     return Response.json({ error: '未知操作' }, { status: 400 });
   } catch (error) {
     console.error('Knowledge API error:', error);
     return Response.json({ error: '操作失败' }, { status: 500 });
   }
-}
+}, { role: 'admin' });
 
 // 清空知识库
-export async function DELETE() {
-  await clearKnowledgeBase();
+export const DELETE = withAuth(async (req: NextRequest) => {
+  const collectionId = req.nextUrl.searchParams.get('collectionId') || DEFAULT_COLLECTION_ID;
+  if (!(await findCollection(collectionId))) {
+    return collectionNotFound();
+  }
+
+  await clearKnowledgeBase(collectionId);
   return Response.json({ success: true, message: '知识库已清空' });
-}
+}, { role: 'admin' });
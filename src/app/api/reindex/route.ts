@@ -1,77 +1,51 @@
 import { NextRequest } from 'next/server';
 import { readdir, readFile } from 'fs/promises';
-import { join } from 'path';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
-import { Document } from '@langchain/core/documents';
-import { addDocumentsToStore, getRagConfig, clearAllDocuments } from '@/lib/vector-store';
+import { join, relative, sep } from 'path';
+import {
+  clearAllDocuments,
+  deferPersist,
+  findCollection,
+  getUploadDir,
+  isCollectionUploadDir,
+  computeContentHash,
+  getDocumentMetaMap,
+  DEFAULT_COLLECTION_ID,
+} from '@/lib/vector-store';
+import { findLoader } from '@/lib/loaders';
+import { ingestFile } from '@/lib/ingest';
+import { withAuth } from '@/lib/auth';
 
-// 支持的文件扩展名
-const SUPPORTED_EXTENSIONS = ['txt', 'pdf', 'xlsx', 'xls', 'docx', 'doc', 'md', 'markdown'];
-
-function getFileExtension(filename: string): string {
-  return filename.toLowerCase().split('.').pop() || '';
-}
-
-function detectFileType(filename: string): string {
-  const ext = getFileExtension(filename);
-  const typeMap: Record<string, string> = {
-    'pdf': 'PDF',
-    'txt': 'TXT',
-    'md': 'Markdown',
-    'markdown': 'Markdown',
-    'xlsx': 'Excel',
-    'xls': 'Excel',
-    'docx': 'Word',
-    'doc': 'Word',
-  };
-  return typeMap[ext] || 'Unknown';
-}
-
-async function parseFile(filePath: string, filename: string): Promise<string> {
-  const ext = getFileExtension(filename);
-  const buffer = await readFile(filePath);
-  
-  if (ext === 'txt' || ext === 'md' || ext === 'markdown') {
-    return buffer.toString('utf-8');
-  }
-  
-  if (ext === 'pdf') {
-    const pdfParse = (await import('pdf-parse')).default;
-    const pdfData = await pdfParse(buffer);
-    return pdfData.text;
-  }
-  
-  if (ext === 'xlsx' || ext === 'xls') {
-    const XLSX = await import('xlsx');
-    const workbook = XLSX.read(buffer, { type: 'buffer' });
-    const sheets: string[] = [];
-    workbook.SheetNames.forEach((sheetName: string) => {
-      const sheet = workbook.Sheets[sheetName];
-      const sheetText = XLSX.utils.sheet_to_csv(sheet, { blankrows: false });
-      if (sheetText.trim()) {
-        sheets.push(`【工作表: ${sheetName}】\n${sheetText}`);
-      }
-    });
-    return sheets.join('\n\n');
-  }
-  
-  if (ext === 'docx' || ext === 'doc') {
-    const mammoth = await import('mammoth');
-    const result = await mammoth.extractRawText({ buffer });
-    return result.value;
+// 递归列出目录下的文件，返回以 / 分隔的相对路径；skipDir 判断需要跳过的顶层子目录
+async function listFiles(root: string, skipDir: (name: string) => boolean, dir = root): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (dir === root && skipDir(entry.name)) continue;
+      files.push(...await listFiles(root, skipDir, fullPath));
+    } else if (entry.isFile()) {
+      files.push(relative(root, fullPath).split(sep).join('/'));
+    }
   }
-  
-  return '';
+  return files;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
   try {
-    const uploadDir = process.env.UPLOAD_DIR || './uploads';
+    // 请求体可省略，此时重建默认知识库
+    const body = await request.json().catch(() => ({}));
+    const collectionId: string = body.collectionId || DEFAULT_COLLECTION_ID;
+    if (!(await findCollection(collectionId))) {
+      return Response.json({ success: false, message: '知识库不存在', processed: 0 }, { status: 404 });
+    }
+
+    const uploadDir = getUploadDir(collectionId);
     
-    // 读取 uploads 目录
+    // 读取 uploads 目录（含子文件夹）；默认知识库的目录下还有其他知识库（包括已删除的）的子目录，需要跳过
+    const skipDir = collectionId === DEFAULT_COLLECTION_ID ? isCollectionUploadDir : () => false;
     let files: string[] = [];
     try {
-      files = await readdir(uploadDir);
+      files = await listFiles(uploadDir, skipDir);
     } catch {
       return Response.json({ 
         success: false, 
@@ -80,10 +54,20 @@ export async function POST(request: NextRequest) {
       });
     }
     
-    // 过滤支持的文件类型
-    const supportedFiles = files.filter(f => {
-      const ext = getFileExtension(f);
-      return SUPPORTED_EXTENSIONS.includes(ext);
+    // 可见范围和上传时的 MIME 类型只保存在文档元信息中，清空前记下，重建时按路径恢复
+    const metaMap = await getDocumentMetaMap(collectionId);
+    const results: { filename: string; path?: string; status: string; chunks?: number }[] = [];
+
+    // 过滤支持的文件类型；与上传一致，扩展名无法识别时按上传时记录的 MIME 类型查找加载器
+    const supportedFiles = files.filter(relativePath => {
+      const filename = relativePath.split('/').pop() || relativePath;
+      if (findLoader(filename, metaMap.get(relativePath)?.mimeType)) return true;
+      results.push({
+        filename,
+        path: relativePath.includes('/') ? relativePath : undefined,
+        status: '跳过: 不支持的文件类型',
+      });
+      return false;
     });
     
     if (supportedFiles.length === 0) {
@@ -91,69 +75,58 @@ export async function POST(request: NextRequest) {
         success: true, 
         message: 'uploads 目录中没有可处理的文档',
         processed: 0,
+        details: results,
       });
     }
     
-    // 清空现有向量数据
-    await clearAllDocuments();
-    
-    const config = getRagConfig();
-    const results: { filename: string; status: string; chunks?: number }[] = [];
     let totalChunks = 0;
+    // 嵌入缓存命中的片段不会重新调用嵌入接口
+    const embeddingCache = { hits: 0, misses: 0 };
+    // 全部文件处理完后统一保存一次知识库
+    const releasePersist = await deferPersist(collectionId);
+    try {
+      // 清空现有向量数据
+      await clearAllDocuments(collectionId);
     
-    // 处理每个文件
-    for (const filename of supportedFiles) {
-      const filePath = join(uploadDir, filename);
+      // 处理每个文件
+      for (const relativePath of supportedFiles) {
+        const filePath = join(uploadDir, relativePath);
+        const filename = relativePath.split('/').pop() || relativePath;
+        const path = relativePath.includes('/') ? relativePath : undefined;
       
-      try {
-        console.log(`[Reindex] 处理文件: ${filename}`);
-        
-        // 解析文件内容
-        let content = await parseFile(filePath, filename);
-        content = content.trim().replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n');
-        
-        if (content.length < 10) {
-          results.push({ filename, status: '内容为空，跳过' });
-          continue;
-        }
-        
-        const fileType = detectFileType(filename);
+        try {
+          console.log(`[Reindex] 处理文件: ${relativePath}`);
         
-        // 分割文档
-        const splitter = new RecursiveCharacterTextSplitter({
-          chunkSize: config.chunkSize,
-          chunkOverlap: config.chunkOverlap,
-          separators: ['\n\n', '\n', '。', '！', '？', '；', '.', '!', '?', ';', ',', '，', ' ', ''],
-        });
+          const buffer = await readFile(filePath);
+          const previous = metaMap.get(relativePath);
+          const { chunkCount, embeddingCache: fileCache } = await ingestFile({ filename, path, mimeType: previous?.mimeType, buffer }, {
+            collectionId,
+            contentHash: computeContentHash(buffer),
+            access: previous?.access,
+          });
         
-        const docs = [new Document({ 
-          pageContent: content, 
-          metadata: { source: filename, fileType } 
-        })];
+          results.push({ filename, path, status: '成功', chunks: chunkCount });
+          totalChunks += chunkCount;
+          embeddingCache.hits += fileCache.hits;
+          embeddingCache.misses += fileCache.misses;
         
-        let splitDocs = await splitter.splitDocuments(docs);
-        if (splitDocs.length === 0 && content.length > 0) {
-          splitDocs = docs;
+          console.log(`[Reindex] ${relativePath} 完成，${chunkCount} 个片段，缓存命中 ${fileCache.hits} 个`);
+        } catch (err) {
+          console.error(`[Reindex] ${relativePath} 失败:`, err);
+          results.push({ filename, path, status: `失败: ${err instanceof Error ? err.message : '未知错误'}` });
         }
-        
-        // 添加到向量存储
-        await addDocumentsToStore(splitDocs, filename, fileType);
-        
-        results.push({ filename, status: '成功', chunks: splitDocs.length });
-        totalChunks += splitDocs.length;
-        
-        console.log(`[Reindex] ${filename} 完成，${splitDocs.length} 个片段`);
-      } catch (err) {
-        console.error(`[Reindex] ${filename} 失败:`, err);
-        results.push({ filename, status: `失败: ${err instanceof Error ? err.message : '未知错误'}` });
       }
+    } finally {
+      await releasePersist();
     }
     
     return Response.json({
       success: true,
-      message: `重新索引完成，共处理 ${results.filter(r => r.status === '成功').length} 个文件，${totalChunks} 个片段`,
+      message: `重新索引完成，共处理 ${results.filter(r => r.status === '成功').length} 个文件，${totalChunks} 个片段` +
+        `（复用缓存向量 ${embeddingCache.hits} 个，新生成 ${embeddingCache.misses} 个）`,
       processed: results.filter(r => r.status === '成功').length,
       totalChunks,
+      embeddingCache,
       details: results,
     });
   } catch (err) {
@@ -164,5 +137,5 @@ export async function POST(request: NextRequest) {
       processed: 0,
     }, { status: 500 });
   }
-}
+}, { role: 'admin' });
 
@@ -1,171 +1,252 @@
 import { NextRequest } from 'next/server';
-import { mkdir, writeFile, readFile } from 'fs/promises';
-import { join } from 'path';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
-import { Document } from '@langchain/core/documents';
-import { addDocumentsToStore, getRagConfig } from '@/lib/vector-store';
-
-// 获取文件扩展名
-function getFileExtension(filename: string): string {
-  return filename.toLowerCase().split('.').pop() || '';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import JSZip from 'jszip';
+import {
+  findCollection,
+  getUploadDir,
+  computeContentHash,
+  findDocumentByHash,
+  normalizeDocumentAccess,
+  deferPersist,
+  DocumentAccess,
+  DEFAULT_COLLECTION_ID,
+} from '@/lib/vector-store';
+import { getEmbeddings } from '@/lib/embeddings';
+import { enqueueIngestJob, runAfterIngestJobs, IngestContext, IngestTaskResult } from '@/lib/ingest-jobs';
+import { findLoader, getFileExtension } from '@/lib/loaders';
+import { ingestFile, IngestFile } from '@/lib/ingest';
+import { withAuth } from '@/lib/auth';
+
+// 单次请求最多处理的文件数（含压缩包内的文件）
+const MAX_FILES_PER_REQUEST = 500;
+
+// 每个文件的处理结果，格式与 /api/reindex 的 details 一致
+interface UploadDetail {
+  filename: string;
+  path?: string;
+  status: string;
+  jobId?: string;
 }
 
-// 支持的文件类型
-const SUPPORTED_EXTENSIONS = ['txt', 'pdf', 'xlsx', 'xls', 'docx', 'doc', 'md', 'markdown'];
+// 规范化压缩包内的路径，去掉 ".." 等片段，防止写到上传目录之外
+function normalizeArchivePath(name: string): string {
+  return name
+    .split(/[\\/]+/)
+    .filter(part => part && part !== '.' && part !== '..')
+    .join('/');
+}
 
-export async function POST(request: NextRequest) {
+// 压缩包解压后的大小上限：单个文件和单次请求的总量，防止压缩炸弹耗尽内存
+const MAX_EXTRACTED_FILE_SIZE = 50 * 1024 * 1024;
+const MAX_EXTRACTED_TOTAL_SIZE = 500 * 1024 * 1024;
+
+type ExpandResult =
+  | { ok: true; items: IngestFile[] }
+  | { ok: false; error: string };  // 超出限制，整个上传请求被拒绝
+
+// 边解压边计数，超出额度时立即停止并返回 null（文件头中的原始大小可以伪造，不能作为依据）
+function readEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream('nodebuffer');
+    stream
+      .on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > limit) {
+          stream.pause();
+          stream.removeAllListeners();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+// 展开 .zip，保留文件夹结构；跳过 macOS 生成的 __MACOSX 和隐藏文件
+// budget 为本次请求剩余的解压额度，多个压缩包共用
+async function expandZip(buffer: Buffer, budget: { remaining: number }): Promise<ExpandResult> {
+  const zip = await JSZip.loadAsync(buffer);
+  const entries = Object.values(zip.files).filter(entry => !entry.dir);
+  if (entries.length > MAX_FILES_PER_REQUEST) {
+    return { ok: false, error: `压缩包内文件过多（${entries.length} 个），单次最多 ${MAX_FILES_PER_REQUEST} 个，请分批上传` };
+  }
+
+  const items: IngestFile[] = [];
+  for (const entry of entries) {
+    const path = normalizeArchivePath(entry.name);
+    const parts = path.split('/');
+    if (!path || parts[0] === '__MACOSX' || parts.some(part => part.startsWith('.'))) continue;
+
+    const entryBuffer = await readEntry(entry, Math.min(MAX_EXTRACTED_FILE_SIZE, budget.remaining));
+    if (!entryBuffer) {
+      return {
+        ok: false,
+        error: `压缩包解压后过大：单个文件不能超过 ${MAX_EXTRACTED_FILE_SIZE / 1024 / 1024} MB，` +
+          `单次上传解压后总计不能超过 ${MAX_EXTRACTED_TOTAL_SIZE / 1024 / 1024} MB`,
+      };
+    }
+    budget.remaining -= entryBuffer.length;
+    items.push({
+      filename: parts[parts.length - 1],
+      path: parts.length > 1 ? path : undefined,
+      buffer: entryBuffer,
+    });
+  }
+  return { ok: true, items };
+}
+
+// 表单中的账号或分组列表，用逗号、顿号或空白分隔
+function parseNameList(value: FormDataEntryValue | null): string[] {
+  return typeof value === 'string' ? value.split(/[,，、\s]+/) : [];
+}
+
+// 解析、分块并向量化上传的文件，在后台任务中执行
+async function ingestUpload(
+  file: IngestFile,
+  collectionId: string,
+  contentHash: string,
+  access: DocumentAccess | undefined,
+  ctx: IngestContext,
+): Promise<IngestTaskResult> {
+  const { document, replaced, chunkCount, embeddingCache } = await ingestFile(file, {
+    collectionId,
+    contentHash,
+    access,
+    onStage: ctx.setStage,
+    onProgress: ctx.setProgress,
+    signal: ctx.signal,
+  });
+
+  // 入库成功后再覆盖磁盘上的原文件，失败时保留旧版本以便重建索引
+  ctx.setStage('saving');
+  const filePath = join(getUploadDir(collectionId), file.path || file.filename);
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, file.buffer);
+  console.log(`[Upload] 文件已保存: ${filePath}`);
+
+  // 内容未变的片段直接复用嵌入缓存中的向量
+  const reused = embeddingCache.hits > 0 ? `其中 ${embeddingCache.hits} 个片段复用了已有向量。` : '';
+  return {
+    message: replaced
+      ? `文档已更新！旧版本已替换，当前共 ${chunkCount} 个文本片段。${reused}`
+      : `文档上传成功！已处理 ${chunkCount} 个文本片段。${reused}`,
+    document,
+  };
+}
+
+export const POST = withAuth(async (request: NextRequest) => {
   try {
     const formData = await request.formData();
-    const file = formData.get('file') as File;
-
-    if (!file || !(file instanceof File)) {
+    // 兼容单文件字段 file 和多文件字段 files
+    const files = [...formData.getAll('files'), ...formData.getAll('file')]
+      .filter((entry): entry is File => entry instanceof File);
+    const collectionId = (formData.get('collectionId') as string | null) || DEFAULT_COLLECTION_ID;
+    // 本次上传的文档的可见范围，不填时所有人可见（更新同名文档时沿用旧文档的可见范围）
+    const access = normalizeDocumentAccess(parseNameList(formData.get('accessUsers')), parseNameList(formData.get('accessGroups')));
+
+    if (files.length === 0) {
       return Response.json({ error: '未选择文件' }, { status: 400 });
     }
 
-    if (!process.env.DASHSCOPE_API_KEY) {
-      return Response.json({ error: '未配置 DASHSCOPE_API_KEY' }, { status: 500 });
+    if (!(await findCollection(collectionId))) {
+      return Response.json({ error: '知识库不存在' }, { status: 404 });
     }
 
-    const ext = getFileExtension(file.name);
-    if (!SUPPORTED_EXTENSIONS.includes(ext)) {
-      return Response.json({ 
-        error: `不支持的文件类型: .${ext}。支持的格式: ${SUPPORTED_EXTENSIONS.join(', ')}` 
-      }, { status: 400 });
+    const embeddingConfigError = getEmbeddings().getConfigError();
+    if (embeddingConfigError) {
+      return Response.json({ error: `嵌入模型配置错误: ${embeddingConfigError}` }, { status: 500 });
     }
 
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    const uploadDir = process.env.UPLOAD_DIR || './uploads';
-    await mkdir(uploadDir, { recursive: true });
-
-    const filePath = join(uploadDir, file.name);
-    await writeFile(filePath, buffer);
-
-    console.log(`[Upload] 文件已保存: ${filePath}`);
-
-    let content = '';
-    let fileType = '';
-    
-    // TXT 文件
-    if (ext === 'txt') {
-      content = await readFile(filePath, 'utf-8');
-      fileType = 'TXT';
-      console.log(`[Upload] TXT 文件内容长度: ${content.length} 字符`);
-    } 
-    // Markdown 文件
-    else if (ext === 'md' || ext === 'markdown') {
-      content = await readFile(filePath, 'utf-8');
-      fileType = 'Markdown';
-      console.log(`[Upload] Markdown 文件内容长度: ${content.length} 字符`);
-    }
-    // PDF 文件
-    else if (ext === 'pdf') {
-      try {
-        const pdfParse = (await import('pdf-parse')).default;
-        const pdfData = await pdfParse(buffer);
-        content = pdfData.text;
-        fileType = 'PDF';
-        console.log(`[Upload] PDF 解析完成，内容长度: ${content.length} 字符`);
-      } catch (err) {
-        console.error('[Upload] PDF parse error:', err);
-        return Response.json({ error: 'PDF 解析失败，可能是扫描版或加密 PDF' }, { status: 500 });
+    const details: UploadDetail[] = [];
+    const items: IngestFile[] = [];
+    const extractBudget = { remaining: MAX_EXTRACTED_TOTAL_SIZE };
+    for (const file of files) {
+      const buffer = Buffer.from(await file.arrayBuffer());
+      if (getFileExtension(file.name) !== 'zip') {
+        items.push({ filename: file.name, mimeType: file.type || undefined, buffer });
+        continue;
       }
-    }
-    // Excel 文件
-    else if (ext === 'xlsx' || ext === 'xls') {
+      let expanded: ExpandResult;
       try {
-        const XLSX = await import('xlsx');
-        const workbook = XLSX.read(buffer, { type: 'buffer' });
-        const sheets: string[] = [];
-        
-        workbook.SheetNames.forEach((sheetName: string) => {
-          const sheet = workbook.Sheets[sheetName];
-          // 转换为 CSV 格式文本
-          const sheetText = XLSX.utils.sheet_to_csv(sheet, { blankrows: false });
-          if (sheetText.trim()) {
-            sheets.push(`【工作表: ${sheetName}】\n${sheetText}`);
-          }
-        });
-        
-        content = sheets.join('\n\n');
-        fileType = 'Excel';
-        console.log(`[Upload] Excel 解析完成，共 ${workbook.SheetNames.length} 个工作表，内容长度: ${content.length} 字符`);
+        expanded = await expandZip(buffer, extractBudget);
       } catch (err) {
-        console.error('[Upload] Excel parse error:', err);
-        return Response.json({ error: 'Excel 解析失败' }, { status: 500 });
+        console.error(`[Upload] 压缩包 ${file.name} 解压失败:`, err);
+        details.push({ filename: file.name, status: '解压失败，请确认是有效的 .zip 文件' });
+        continue;
       }
-    }
-    // Word 文件
-    else if (ext === 'docx' || ext === 'doc') {
-      try {
-        const mammoth = await import('mammoth');
-        const result = await mammoth.extractRawText({ buffer });
-        content = result.value;
-        fileType = 'Word';
-        console.log(`[Upload] Word 解析完成，内容长度: ${content.length} 字符`);
-        
-        if (result.messages.length > 0) {
-          console.log('[Upload] Word 解析警告:', result.messages);
-        }
-      } catch (err) {
-        console.error('[Upload] Word parse error:', err);
-        return Response.json({ error: 'Word 解析失败，仅支持 .docx 格式' }, { status: 500 });
+      if (!expanded.ok) {
+        console.warn(`[Upload] 压缩包 ${file.name} 被拒绝: ${expanded.error}`);
+        return Response.json({ error: expanded.error }, { status: 413 });
       }
+      console.log(`[Upload] 压缩包 ${file.name} 共 ${expanded.items.length} 个文件`);
+      items.push(...expanded.items);
     }
 
-    // 清理内容：移除多余空白（保留换行符用于分割）
-    content = content.trim().replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n');
-    
-    if (content.length < 10) {
-      return Response.json({ 
-        error: `${fileType} 内容为空或无法提取文字。请检查文件是否正确。` 
+    if (items.length > MAX_FILES_PER_REQUEST) {
+      return Response.json({
+        error: `单次最多上传 ${MAX_FILES_PER_REQUEST} 个文件，当前 ${items.length} 个，请分批上传`,
       }, { status: 400 });
     }
 
-    console.log(`[Upload] ${fileType} 文件处理完成，清理后内容长度: ${content.length} 字符`);
-
-    // 创建文档
-    const docs = [new Document({ 
-      pageContent: content, 
-      metadata: { source: file.name, fileType } 
-    })];
+    // 本次上传的任务全部结束后再统一保存知识库，而不是每个文件保存一次
+    const releasePersist = await deferPersist(collectionId);
+    try {
+      const seenHashes = new Set<string>();
+      for (const item of items) {
+        const { filename, path, mimeType, buffer } = item;
 
-    // 获取配置
-    const config = getRagConfig();
-    console.log(`[Upload] 使用分块配置: chunkSize=${config.chunkSize}, chunkOverlap=${config.chunkOverlap}`);
+        if (!findLoader(filename, mimeType)) {
+          details.push({ filename, path, status: `不支持的文件类型: .${getFileExtension(filename)}` });
+          continue;
+        }
 
-    // 分割文档
-    const splitter = new RecursiveCharacterTextSplitter({ 
-      chunkSize: config.chunkSize,
-      chunkOverlap: config.chunkOverlap,
-      separators: ['\n\n', '\n', '。', '！', '？', '；', '.', '!', '?', ';', ',', '，', ' ', ''],
-    });
-    
-    let splitDocs = await splitter.splitDocuments(docs);
-    
-    // 如果分割结果为空，但内容存在，直接使用原文档
-    if (splitDocs.length === 0 && content.length > 0) {
-      console.log(`[Upload] 分割结果为空，使用原文档`);
-      splitDocs = docs;
-    }
-    
-    console.log(`[Upload] 文档分割完成，共 ${splitDocs.length} 个片段`);
+        // 内容完全相同的文件（包括本次请求中的重复文件）无需重复解析和向量化
+        const contentHash = computeContentHash(buffer);
+        const duplicate = await findDocumentByHash(contentHash, collectionId);
+        if (duplicate || seenHashes.has(contentHash)) {
+          console.log(`[Upload] ${path || filename} 内容重复，跳过`);
+          details.push({
+            filename,
+            path,
+            status: !duplicate
+              ? '与本次上传的其他文件内容相同，已跳过'
+              : duplicate.filename === filename
+                ? '文档未发生变化，已跳过'
+                : `与已上传的 ${duplicate.filename} 内容相同，已跳过`,
+          });
+          continue;
+        }
+        seenHashes.add(contentHash);
 
-    if (splitDocs.length === 0) {
-      return Response.json({ error: '文档处理失败，无法生成文本片段' }, { status: 400 });
+        const job = enqueueIngestJob(collectionId, path || filename, ctx =>
+          ingestUpload(item, collectionId, contentHash, access, ctx),
+        );
+        console.log(`[Upload] ${path || filename} 已加入处理队列 (${job.id})`);
+        details.push({ filename, path, status: '已加入队列', jobId: job.id });
+      }
+    } finally {
+      runAfterIngestJobs(releasePersist);
     }
 
-    const docMeta = await addDocumentsToStore(splitDocs, file.name, fileType);
-
+    // 立即返回任务，前端通过 /api/jobs/[id] 查询进度
+    const queued = details.filter(d => d.jobId).length;
     return Response.json({
       success: true,
-      message: `文档上传成功！已处理 ${splitDocs.length} 个文本片段。`,
-      document: docMeta,
-    });
+      message: queued > 0
+        ? `已接收 ${details.length} 个文件，${queued} 个已加入处理队列`
+        : `已接收 ${details.length} 个文件，没有需要处理的新文档`,
+      queued,
+      details,
+    }, { status: queued > 0 ? 202 : 200 });
   } catch (err) {
     console.error('[Upload] 处理失败:', err);
     return Response.json({ 
       error: `处理失败: ${err instanceof Error ? err.message : '未知错误'}` 
     }, { status: 500 });
   }
-}
+}, { role: 'admin' });
@@ -0,0 +1,14 @@
+import { getUsageReport } from '@/lib/usage';
+import { withAuth, listApiKeys } from '@/lib/auth';
+
+// 当天各 API Key / 账号 / IP 的问答用量和限流配置
+export const GET = withAuth(async () => {
+  const report = await getUsageReport();
+  // API Key 按 ID 计数，显示时换成名称和创建者
+  const keys = new Map((await listApiKeys()).map(k => [`key:${k.id}`, k]));
+  const subjects = report.subjects.map(usage => {
+    const key = keys.get(usage.subject);
+    return { ...usage, label: key ? `🔑 ${key.name}（${key.createdBy}）` : usage.subject.replace(/^user:/, '👤 ').replace(/^ip:/, '🌐 ') };
+  });
+  return Response.json({ ...report, subjects });
+}, { role: 'admin' });
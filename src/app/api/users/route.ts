@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { NextRequest } from 'next/server';
+import { withAuth, listUsers, createUser, updateUser, deleteUser, isBootstrapAdmin, MIN_PASSWORD_LENGTH } from '@/lib/auth';
+
+const usernameSchema = z.string().trim().min(1).max(50).regex(/^[\w.@-]+$/);
+const passwordSchema = z.string().min(MIN_PASSWORD_LENGTH).max(200);
+const roleSchema = z.enum(['admin', 'reader']);
+const groupsSchema = z.array(z.string().trim().min(1).max(50)).max(50).transform(groups => Array.from(new Set(groups)));
+
+// 获取账号列表
+export const GET = withAuth(async () => {
+  return Response.json({ users: await listUsers() });
+}, { role: 'admin' });
+
+// 新建账号
+export const POST = withAuth(async (req: NextRequest) => {
+  let input: { username: string; password: string; role: 'admin' | 'reader'; groups: string[] };
+  try {
+    input = z.object({
+      username: usernameSchema,
+      password: passwordSchema,
+      role: roleSchema.default('reader'),
+      groups: groupsSchema.default([]),
+    }).parse(await req.json());
+  } catch {
+    return Response.json({ error: '用户名只能包含字母、数字和 ._@-，密码至少 8 位' }, { status: 400 });
+  }
+
+  const user = await createUser(input.username, input.password, input.role, input.groups);
+  if (!user) {
+    return Response.json({ error: '用户名已存在' }, { status: 409 });
+  }
+  return Response.json({ success: true, user });
+}, { role: 'admin' });
+
+// 修改角色、分组或重置密码
+export const PATCH = withAuth(async (req: NextRequest, _context, principal) => {
+  let input: { username: string; role?: 'admin' | 'reader'; groups?: string[]; password?: string };
+  try {
+    input = z.object({
+      username: z.string(),
+      role: roleSchema.optional(),
+      groups: groupsSchema.optional(),
+      password: passwordSchema.optional(),
+    }).parse(await req.json());
+  } catch {
+    return Response.json({ error: '参数错误，密码至少 8 位' }, { status: 400 });
+  }
+
+  // 防止管理员把自己或环境变量中的管理员降级后无人能管理
+  if (input.role === 'reader' && (isBootstrapAdmin(input.username) || input.username === principal.username)) {
+    return Response.json({ error: '不能降级内置管理员或当前登录的账号' }, { status: 400 });
+  }
+  if (input.password && isBootstrapAdmin(input.username)) {
+    return Response.json({ error: '内置管理员的密码请通过 ADMIN_PASSWORD 修改' }, { status: 400 });
+  }
+
+  const user = await updateUser(input.username, { role: input.role, groups: input.groups, password: input.password });
+  if (!user) {
+    return Response.json({ error: '账号不存在' }, { status: 404 });
+  }
+  return Response.json({ success: true, user });
+}, { role: 'admin' });
+
+// 删除账号
+export const DELETE = withAuth(async (req: NextRequest, _context, principal) => {
+  const username = req.nextUrl.searchParams.get('username');
+  if (!username) {
+    return Response.json({ error: '缺少用户名' }, { status: 400 });
+  }
+  if (isBootstrapAdmin(username) || username === principal.username) {
+    return Response.json({ error: '不能删除内置管理员或当前登录的账号' }, { status: 400 });
+  }
+  if (!(await deleteUser(username))) {
+    return Response.json({ error: '账号不存在' }, { status: 404 });
+  }
+  return Response.json({ success: true });
+}, { role: 'admin' });
@@ -8,6 +8,14 @@ interface DocumentMeta {
   uploadTime: string;
   chunkCount: number;
   fileType: string;
+  path?: string;
+  access?: DocumentAccess;
+}
+
+// 文档的可见范围，未设置时所有人可见
+interface DocumentAccess {
+  users: string[];
+  groups: string[];
 }
 
 interface RagConfig {
@@ -16,33 +24,95 @@ interface RagConfig {
   chunkOverlap: number;
   model: string;
   temperature: number;
+  retrievalMode?: RetrievalMode;
+  hybridAlpha?: number;
+  reranker?: RerankerId;
+  minScore?: number;
+  answerCacheThreshold?: number;
+}
+
+type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+type RerankerId = 'none' | 'dashscope' | 'llm' | 'local';
+
+interface ModelOption {
+  value: string;
+  label: string;
+  provider: string;
 }
 
-// 可用的模型列表
-const AVAILABLE_MODELS = [
-  { value: 'deepseek-r1', label: 'DeepSeek R1' },
-  { value: 'deepseek-v3', label: 'DeepSeek V3' },
-  { value: 'qwen3-max', label: 'Qwen3 Max (优秀)' },
-  { value: 'qwen-max', label: 'Qwen Max (推荐)' },
-  { value: 'qwen-plus', label: 'Qwen Plus (便宜)' },
-  { value: 'qwen-turbo', label: 'Qwen Turbo (快速)' },
-  { value: 'qwen-long', label: 'Qwen Long (长文本)' },
-  { value: 'glm-4.6', label:'GLM 4.6'},
-  { value: 'glm-4.5', label:'GLM 4.5'},
-  { value: 'kimi-k2-thinking', label:'Kimi K2 Thinking'},
-  { value: 'Moonshot-Kimi-K2-Instruct', label:'Kimi K2 Instruct'},
-];
+// 每次提问最多携带的历史消息条数
+const MAX_HISTORY_MESSAGES = 10;
+
+interface Collection {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+const DEFAULT_COLLECTION_ID = 'default';
 
 interface KnowledgeStats {
   documentCount: number;
   totalChunks: number;
   documents: DocumentMeta[];
   config: RagConfig;
+  models?: ModelOption[];
+  collections?: Collection[];
 }
 
+interface IngestJob {
+  id: string;
+  filename: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  stage?: 'parsing' | 'splitting' | 'embedding' | 'saving';
+  chunksDone: number;
+  chunksTotal: number;
+  message?: string;
+  error?: string;
+}
+
+const JOB_STAGE_LABELS: Record<string, string> = {
+  queued: '排队中',
+  parsing: '解析中',
+  splitting: '分块中',
+  embedding: '向量化中',
+  saving: '保存中',
+};
+
 interface RetrievedChunk {
   content: string;
   source: string;
+  headingPath?: string;
+  page?: number;
+  pageEnd?: number;
+  sheet?: string;
+  row?: number;
+  rowEnd?: number;
+  score?: number;
+  rerankScore?: number;
+}
+
+// 引用来源，PDF 附带页码（如 "contract.pdf, p. 37"），Excel 附带工作表和行号
+function formatChunkSource(chunk: RetrievedChunk): string {
+  if (chunk.page) {
+    return `${chunk.source}, p. ${chunk.page}${chunk.pageEnd ? `–${chunk.pageEnd}` : ''}`;
+  }
+  if (chunk.sheet && chunk.row) {
+    return `${chunk.source}, ${chunk.sheet} 第 ${chunk.row}${chunk.rowEnd ? `–${chunk.rowEnd}` : ''} 行`;
+  }
+  return chunk.source;
+}
+
+// 把 "alice, bob" 这样的输入拆成名称列表，兼容中文逗号、顿号和空格
+function splitNames(value: string): string[] {
+  return value.split(/[,，、\s]+/).map(name => name.trim()).filter(Boolean);
+}
+
+function formatAccess(access: DocumentAccess): string {
+  return [
+    access.users.length > 0 ? `账号: ${access.users.join(', ')}` : '',
+    access.groups.length > 0 ? `分组: ${access.groups.join(', ')}` : '',
+  ].filter(Boolean).join('；');
 }
 
 interface Message {
@@ -50,9 +120,60 @@ interface Message {
   role: string;
   content: string;
   chunks?: RetrievedChunk[];
+  citations?: number[];   // 回答中实际引用的片段编号（从 1 开始）
+  activeChunk?: number;   // 点击引用标记后高亮的片段编号
   feedback?: 'like' | 'dislike' | null;
   showChunks?: boolean;
   suggestedQuestions?: string[];
+  streaming?: boolean;
+  cache?: AnswerCacheInfo;  // 回答来自答案缓存时，命中的问题和相似度
+}
+
+interface AnswerCacheInfo {
+  question: string;
+  similarity: number;
+  cachedAt: string;
+}
+
+type Role = 'admin' | 'reader';
+
+interface AuthUser {
+  type: 'session' | 'apiKey' | 'anonymous';
+  username: string;
+  role: Role;
+}
+
+interface UserInfo {
+  username: string;
+  role: Role;
+  groups: string[];
+  createdAt: string;
+}
+
+interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  role: Role;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+interface UsageReport {
+  date: string;
+  limits: {
+    windows: { limit: number; windowSeconds: number }[];
+    dailyRequests: number;  // 0 表示不限
+    dailyTokens: number;
+  };
+  subjects: {
+    subject: string;
+    label: string;
+    requests: number;
+    tokens: number;
+    windowCounts: number[];
+  }[];
 }
 
 // 确认弹窗组件
@@ -112,13 +233,524 @@ function ConfirmModal({
   );
 }
 
+// 登录页
+function LoginForm({ onLogin, setupMessage }: { onLogin: (user: AuthUser) => void; setupMessage?: string | null }) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loggingIn, setLoggingIn] = useState(false);
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoggingIn(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/auth', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        onLogin(data.user);
+      } else {
+        setError(data.error || '登录失败');
+      }
+    } catch (err) {
+      console.error('登录失败:', err);
+      setError('登录失败，请重试');
+    } finally {
+      setLoggingIn(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <form onSubmit={handleLogin} className="w-full max-w-sm mx-4 bg-slate-800/80 border border-slate-700 rounded-2xl p-6 space-y-4">
+        <h1 className="text-xl font-bold bg-gradient-to-r from-blue-400 to-emerald-400 bg-clip-text text-transparent flex items-center gap-2">
+          <img src="/favicon.svg" alt="logo" className="w-6 h-6" />
+          AI 知识库助手
+        </h1>
+        {setupMessage && (
+          <p className="text-xs text-amber-400 bg-amber-400/10 rounded-lg p-2">{setupMessage}</p>
+        )}
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="用户名"
+          autoComplete="username"
+          className="w-full bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="密码"
+          autoComplete="current-password"
+          className="w-full bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+        />
+        {error && <p className="text-xs text-red-400">❌ {error}</p>}
+        <button
+          type="submit"
+          disabled={loggingIn || !username || !password}
+          className="w-full bg-blue-600 hover:bg-blue-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white py-2 rounded-lg text-sm font-medium transition-colors"
+        >
+          {loggingIn ? '登录中...' : '登录'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// API Key 管理弹窗：新建的密钥明文只显示一次
+function ApiKeysModal({ onClose }: { onClose: () => void }) {
+  const [apiKeys, setApiKeys] = useState<ApiKeyInfo[]>([]);
+  const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyRole, setNewKeyRole] = useState<Role>('reader');
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchApiKeys = async () => {
+    try {
+      const res = await fetch('/api/keys');
+      const data = await res.json();
+      if (res.ok) {
+        setApiKeys(data.apiKeys);
+      } else {
+        setError(data.error || '获取 API Key 失败');
+      }
+    } catch (err) {
+      console.error('获取 API Key 失败:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const res = await fetch('/api/keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newKeyName, role: newKeyRole }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || '创建失败');
+        return;
+      }
+      setCreatedKey(data.key);
+      setNewKeyName('');
+      fetchApiKeys();
+    } catch (err) {
+      console.error('创建 API Key 失败:', err);
+      setError('创建失败，请重试');
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKeyInfo) => {
+    if (!window.confirm(`确定吊销「${apiKey.name}」吗？使用该密钥的程序将无法再访问。`)) return;
+    try {
+      const res = await fetch(`/api/keys?id=${encodeURIComponent(apiKey.id)}`, { method: 'DELETE' });
+      if (res.ok) {
+        fetchApiKeys();
+      } else {
+        setError((await res.json()).error || '吊销失败');
+      }
+    } catch (err) {
+      console.error('吊销 API Key 失败:', err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-slate-800 border border-slate-600 rounded-2xl shadow-2xl w-full max-w-lg mx-4 max-h-[80vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-slate-100">🔑 API Key</h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-200 transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-4">
+          <p className="text-xs text-slate-500">
+            程序调用时在请求头中携带 <code className="text-slate-300">Authorization: Bearer &lt;key&gt;</code>
+          </p>
+
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              type="text"
+              value={newKeyName}
+              onChange={(e) => setNewKeyName(e.target.value)}
+              placeholder="用途，如：客服系统"
+              maxLength={50}
+              className="flex-1 bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+            />
+            <select
+              value={newKeyRole}
+              onChange={(e) => setNewKeyRole(e.target.value as Role)}
+              className="bg-slate-700 border border-slate-600 rounded-lg px-2 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+              title="密钥权限"
+            >
+              <option value="reader">读者</option>
+              <option value="admin">管理员</option>
+            </select>
+            <button
+              type="submit"
+              disabled={!newKeyName.trim()}
+              className="bg-blue-600 hover:bg-blue-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              新建
+            </button>
+          </form>
+
+          {createdKey && (
+            <div className="bg-emerald-900/20 border border-emerald-800/30 rounded-lg p-3 space-y-2">
+              <p className="text-xs text-emerald-400">✅ 已创建，请立即复制保存，关闭后无法再次查看</p>
+              <code className="block text-xs text-slate-200 break-all bg-slate-900/50 rounded p-2 select-all">{createdKey}</code>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-400">❌ {error}</p>}
+
+          {apiKeys.length === 0 ? (
+            <p className="text-xs text-slate-500 text-center py-4">暂无 API Key</p>
+          ) : (
+            <div className="space-y-2">
+              {apiKeys.map(apiKey => (
+                <div key={apiKey.id} className="flex items-center gap-3 bg-slate-700/50 rounded-lg p-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-slate-200 truncate">
+                      {apiKey.name}
+                      <span className="ml-2 text-xs text-slate-400">{apiKey.role === 'admin' ? '管理员' : '读者'}</span>
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {apiKey.prefix}… · {apiKey.createdBy} 创建于 {new Date(apiKey.createdAt).toLocaleDateString('zh-CN')}
+                      {apiKey.lastUsedAt && ` · 最近使用 ${new Date(apiKey.lastUsedAt).toLocaleString('zh-CN')}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(apiKey)}
+                    className="text-xs text-red-400 hover:text-red-300 px-2 py-1 rounded hover:bg-red-500/10 transition-colors"
+                  >
+                    吊销
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// 账号管理弹窗（仅管理员）
+function UsersModal({ currentUsername, onClose }: { currentUsername: string; onClose: () => void }) {
+  const [users, setUsers] = useState<UserInfo[]>([]);
+  const [newUsername, setNewUsername] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [newRole, setNewRole] = useState<Role>('reader');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsers = async () => {
+    try {
+      const res = await fetch('/api/users');
+      const data = await res.json();
+      if (res.ok) {
+        setUsers(data.users);
+      } else {
+        setError(data.error || '获取账号失败');
+      }
+    } catch (err) {
+      console.error('获取账号失败:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  // 新建、修改、删除共用：失败时显示服务端返回的原因
+  const submit = async (url: string, init: RequestInit) => {
+    setError(null);
+    try {
+      const res = await fetch(url, init);
+      if (!res.ok) {
+        setError((await res.json()).error || '操作失败');
+        return false;
+      }
+      fetchUsers();
+      return true;
+    } catch (err) {
+      console.error('账号操作失败:', err);
+      setError('操作失败，请重试');
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await submit('/api/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: newUsername.trim(), password: newPassword, role: newRole }),
+    });
+    if (created) {
+      setNewUsername('');
+      setNewPassword('');
+    }
+  };
+
+  const handleRoleChange = (user: UserInfo, role: Role) => submit('/api/users', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: user.username, role }),
+  });
+
+  const handleEditGroups = (user: UserInfo) => {
+    const groups = window.prompt(`「${user.username}」所属的分组（逗号分隔，留空表示不属于任何分组）`, user.groups.join(', '));
+    if (groups === null) return;
+    submit('/api/users', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: user.username, groups: splitNames(groups) }),
+    });
+  };
+
+  const handleResetPassword = (user: UserInfo) => {
+    const password = window.prompt(`为「${user.username}」设置新密码（至少 8 位）`);
+    if (!password) return;
+    submit('/api/users', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: user.username, password }),
+    });
+  };
+
+  const handleDelete = (user: UserInfo) => {
+    if (!window.confirm(`确定删除账号「${user.username}」吗？该账号创建的 API Key 也会一并吊销。`)) return;
+    submit(`/api/users?username=${encodeURIComponent(user.username)}`, { method: 'DELETE' });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-slate-800 border border-slate-600 rounded-2xl shadow-2xl w-full max-w-lg mx-4 max-h-[80vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-slate-100">👥 账号管理</h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-200 transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-4">
+          <p className="text-xs text-slate-500">读者只能问答和反馈；管理员还可以上传、删除、重建索引、修改设置和查看反馈报告。分组用于限定文档的可见范围</p>
+
+          <form onSubmit={handleCreate} className="grid grid-cols-[1fr_1fr_auto_auto] gap-2">
+            <input
+              type="text"
+              value={newUsername}
+              onChange={(e) => setNewUsername(e.target.value)}
+              placeholder="用户名"
+              maxLength={50}
+              className="min-w-0 bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+            />
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="密码（至少 8 位）"
+              autoComplete="new-password"
+              className="min-w-0 bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+            />
+            <select
+              value={newRole}
+              onChange={(e) => setNewRole(e.target.value as Role)}
+              className="bg-slate-700 border border-slate-600 rounded-lg px-2 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+            >
+              <option value="reader">读者</option>
+              <option value="admin">管理员</option>
+            </select>
+            <button
+              type="submit"
+              disabled={!newUsername.trim() || newPassword.length < 8}
+              className="bg-blue-600 hover:bg-blue-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              新建
+            </button>
+          </form>
+
+          {error && <p className="text-xs text-red-400">❌ {error}</p>}
+
+          <div className="space-y-2">
+            {users.map(user => (
+              <div key={user.username} className="flex items-center gap-3 bg-slate-700/50 rounded-lg p-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-slate-200 truncate">
+                    {user.username}
+                    {user.username === currentUsername && <span className="text-xs text-slate-500">（当前）</span>}
+                  </p>
+                  <p className="text-xs text-slate-500 truncate">
+                    创建于 {new Date(user.createdAt).toLocaleDateString('zh-CN')}
+                    {user.groups.length > 0 && ` · 分组: ${user.groups.join(', ')}`}
+                  </p>
+                </div>
+                <select
+                  value={user.role}
+                  onChange={(e) => handleRoleChange(user, e.target.value as Role)}
+                  className="bg-slate-700 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+                >
+                  <option value="reader">读者</option>
+                  <option value="admin">管理员</option>
+                </select>
+                <button
+                  onClick={() => handleEditGroups(user)}
+                  className="text-xs text-slate-400 hover:text-slate-200 px-2 py-1 rounded hover:bg-slate-600/50 transition-colors"
+                >
+                  分组
+                </button>
+                <button
+                  onClick={() => handleResetPassword(user)}
+                  className="text-xs text-slate-400 hover:text-slate-200 px-2 py-1 rounded hover:bg-slate-600/50 transition-colors"
+                >
+                  重置密码
+                </button>
+                <button
+                  onClick={() => handleDelete(user)}
+                  disabled={user.username === currentUsername}
+                  className="text-xs text-red-400 hover:text-red-300 disabled:text-slate-600 disabled:cursor-not-allowed px-2 py-1 rounded hover:bg-red-500/10 transition-colors"
+                >
+                  删除
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// 问答用量弹窗（仅管理员）：当天各 API Key / 账号 / IP 的请求次数和 token 用量
+function UsageModal({ onClose }: { onClose: () => void }) {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = async () => {
+    try {
+      const res = await fetch('/api/usage');
+      const data = await res.json();
+      if (res.ok) {
+        setReport(data);
+      } else {
+        setError(data.error || '获取用量失败');
+      }
+    } catch (err) {
+      console.error('获取用量失败:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsage();
+  }, []);
+
+  const formatQuota = (used: number, quota: number) => quota > 0 ? `${used} / ${quota}` : String(used);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-slate-800 border border-slate-600 rounded-2xl shadow-2xl w-full max-w-2xl mx-4 max-h-[80vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-slate-100">📈 问答用量{report && <span className="ml-2 text-sm font-normal text-slate-400">{report.date}</span>}</h3>
+          <div className="flex items-center gap-2">
+            <button onClick={fetchUsage} className="text-xs text-slate-400 hover:text-slate-200 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors">
+              🔄 刷新
+            </button>
+            <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-200 transition-colors">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-4">
+          {error && <p className="text-xs text-red-400">❌ {error}</p>}
+          {report && (
+            <>
+              <p className="text-xs text-slate-500">
+                限流：{report.limits.windows.length > 0
+                  ? report.limits.windows.map(w => `每 ${w.windowSeconds} 秒 ${w.limit} 次`).join('，')
+                  : '未开启'}
+                ；每日请求：{report.limits.dailyRequests || '不限'}；每日 token：{report.limits.dailyTokens || '不限'}
+              </p>
+              {report.subjects.length === 0 ? (
+                <p className="text-xs text-slate-500 text-center py-4">今天还没有问答请求</p>
+              ) : (
+                <table className="w-full text-xs text-left">
+                  <thead className="text-slate-400 border-b border-slate-700">
+                    <tr>
+                      <th className="py-2 font-medium">调用方</th>
+                      {report.limits.windows.map(w => (
+                        <th key={w.windowSeconds} className="py-2 font-medium text-right">{w.windowSeconds} 秒内</th>
+                      ))}
+                      <th className="py-2 font-medium text-right">今日请求</th>
+                      <th className="py-2 font-medium text-right">今日 token</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-slate-300">
+                    {report.subjects.map(usage => (
+                      <tr key={usage.subject} className="border-b border-slate-700/50">
+                        <td className="py-2 truncate max-w-[14rem]" title={usage.subject}>{usage.label}</td>
+                        {usage.windowCounts.map((count, i) => (
+                          <td key={i} className={`py-2 text-right ${count >= report.limits.windows[i].limit ? 'text-red-400' : ''}`}>
+                            {count} / {report.limits.windows[i].limit}
+                          </td>
+                        ))}
+                        <td className="py-2 text-right">{formatQuota(usage.requests, report.limits.dailyRequests)}</td>
+                        <td className="py-2 text-right">{formatQuota(usage.tokens, report.limits.dailyTokens)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function ChatPage() {
+  // undefined 表示尚未检查登录状态
+  const [currentUser, setCurrentUser] = useState<AuthUser | null | undefined>(undefined);
+  const [authSetupMessage, setAuthSetupMessage] = useState<string | null>(null);
+  const [showApiKeys, setShowApiKeys] = useState(false);
+  const [showUsers, setShowUsers] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
   const [input, setInput] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
   const [uploading, setUploading] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<string | null>(null);
+  const [accessUsers, setAccessUsers] = useState('');
+  const [accessGroups, setAccessGroups] = useState('');
+  const [uploadJob, setUploadJob] = useState<IngestJob | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<string | null>(null);
+  const pendingJobIdsRef = useRef<string[]>([]);
   const [sending, setSending] = useState(false);
   const [knowledgeStats, setKnowledgeStats] = useState<KnowledgeStats | null>(null);
+  const [collectionId, setCollectionId] = useState(DEFAULT_COLLECTION_ID);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [topK, setTopK] = useState(5);
@@ -126,6 +758,14 @@ export default function ChatPage() {
   const [temperature, setTemperature] = useState(0.3);
   const [chunkSize, setChunkSize] = useState(500);
   const [chunkOverlap, setChunkOverlap] = useState(100);
+  const [retrievalMode, setRetrievalMode] = useState<RetrievalMode>('hybrid');
+  const [hybridAlpha, setHybridAlpha] = useState(0.5);
+  const [reranker, setReranker] = useState<RerankerId>('none');
+  const [minScore, setMinScore] = useState(0);
+  const [answerCacheThreshold, setAnswerCacheThreshold] = useState(0.95);
+  // 勾选的文档 / 文件类型，非空时只在其中检索
+  const [scopeDocIds, setScopeDocIds] = useState<string[]>([]);
+  const [scopeFileTypes, setScopeFileTypes] = useState<string[]>([]);
   const [reindexing, setReindexing] = useState(false);
   const [confirmModal, setConfirmModal] = useState<{
     isOpen: boolean;
@@ -150,7 +790,17 @@ export default function ChatPage() {
 
   const fetchKnowledgeStats = async () => {
     try {
-      const res = await fetch('/api/knowledge');
+      const res = await fetch(`/api/knowledge?collectionId=${encodeURIComponent(collectionId)}`);
+      // 会话过期时回到登录页
+      if (res.status === 401) {
+        setCurrentUser(null);
+        return;
+      }
+      // 当前知识库已被删除时回到默认知识库
+      if (res.status === 404 && collectionId !== DEFAULT_COLLECTION_ID) {
+        setCollectionId(DEFAULT_COLLECTION_ID);
+        return;
+      }
       if (res.ok) {
         const data = await res.json();
         setKnowledgeStats(data);
@@ -160,6 +810,11 @@ export default function ChatPage() {
           setTemperature(data.config.temperature ?? 0.3);
           setChunkSize(data.config.chunkSize ?? 500);
           setChunkOverlap(data.config.chunkOverlap ?? 100);
+          setRetrievalMode(data.config.retrievalMode ?? 'hybrid');
+          setHybridAlpha(data.config.hybridAlpha ?? 0.5);
+          setReranker(data.config.reranker ?? 'none');
+          setMinScore(data.config.minScore ?? 0);
+          setAnswerCacheThreshold(data.config.answerCacheThreshold ?? 0.95);
         }
       }
     } catch (err) {
@@ -220,10 +875,44 @@ export default function ChatPage() {
     }
   };
 
+  const checkAuth = async () => {
+    try {
+      const res = await fetch('/api/auth');
+      const data = await res.json();
+      setCurrentUser(res.ok ? data.user : null);
+      setAuthSetupMessage(data.setupRequired ? data.error : null);
+    } catch (err) {
+      console.error('获取登录状态失败:', err);
+      setCurrentUser(null);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth', { method: 'DELETE' });
+    } catch (err) {
+      console.error('退出登录失败:', err);
+    }
+    // 换成读者账号登录时不应留着管理面板
+    setShowSettings(false);
+    setShowFeedbackReport(false);
+    setCurrentUser(null);
+  };
+
   useEffect(() => {
-    fetchKnowledgeStats();
+    checkAuth();
   }, []);
 
+  // 切换知识库或重新登录时加载文档和配置，之前的对话和检索范围不再适用
+  useEffect(() => {
+    setMessages([]);
+    setScopeDocIds([]);
+    setScopeFileTypes([]);
+    if (currentUser) {
+      fetchKnowledgeStats();
+    }
+  }, [collectionId, currentUser]);
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
@@ -238,6 +927,12 @@ export default function ChatPage() {
     e.preventDefault();
     if (!input.trim() || sending) return;
 
+    // 带上最近的对话历史，服务端会按 token 预算再做截断
+    const history = messages
+      .filter(msg => (msg.role === 'user' || msg.role === 'assistant') && msg.content)
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map(msg => ({ role: msg.role, content: msg.content }));
+
     const userMessage: Message = { 
       id: `user_${Date.now()}`, 
       role: 'user', 
@@ -247,34 +942,96 @@ export default function ChatPage() {
     setInput('');
     setSending(true);
 
+    const aiMessageId = `ai_${Date.now()}`;
+    const updateAiMessage = (updates: Partial<Message>) => {
+      setMessages(prev => prev.map(msg => msg.id === aiMessageId ? { ...msg, ...updates } : msg));
+    };
+
     try {
       const res = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: input, topK }),
+        body: JSON.stringify({ message: input, collectionId, topK, history, filter: buildScopeFilter(), stream: true }),
       });
-      const result = await res.json();
-      const aiMessage: Message = { 
-        id: `ai_${Date.now()}`, 
-        role: 'assistant', 
-        content: result.answer,
-        chunks: result.chunks || [],
+
+      // 非流式响应（如参数错误）直接按 JSON 处理
+      if (!res.body || !res.headers.get('Content-Type')?.includes('text/event-stream')) {
+        const result = await res.json();
+        setMessages(prev => [...prev, {
+          id: aiMessageId,
+          role: 'assistant',
+          content: result.answer,
+          chunks: result.chunks || [],
+          citations: result.citations || [],
+          feedback: null,
+          showChunks: false,
+          suggestedQuestions: result.suggestedQuestions || [],
+          cache: result.cache,
+        }]);
+        return;
+      }
+
+      setMessages(prev => [...prev, {
+        id: aiMessageId,
+        role: 'assistant',
+        content: '',
+        chunks: [],
         feedback: null,
         showChunks: false,
-        suggestedQuestions: result.suggestedQuestions || [],
-      };
-      setMessages(prev => [...prev, aiMessage]);
+        suggestedQuestions: [],
+        streaming: true,
+      }]);
+
+      // 逐个解析 SSE 事件：chunks → delta... → done / error
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let content = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const rawEvent of events) {
+          const eventLine = rawEvent.split('\n').find(line => line.startsWith('event: '));
+          const dataLine = rawEvent.split('\n').find(line => line.startsWith('data: '));
+          if (!eventLine || !dataLine) continue;
+
+          const event = eventLine.slice(7);
+          const data = JSON.parse(dataLine.slice(6));
+
+          if (event === 'chunks') {
+            updateAiMessage({ chunks: data.chunks || [] });
+          } else if (event === 'delta') {
+            content += data.content;
+            updateAiMessage({ content });
+          } else if (event === 'done') {
+            updateAiMessage({ content: data.answer, citations: data.citations || [], suggestedQuestions: data.suggestedQuestions || [], cache: data.cache });
+          } else if (event === 'error') {
+            updateAiMessage({ content: data.answer, chunks: [] });
+          }
+        }
+      }
     } catch (err) {
       console.error(err);
-      const errorMessage: Message = { 
-        id: `ai_${Date.now()}`, 
-        role: 'assistant', 
-        content: '抱歉，出错了。',
-        chunks: [],
-        feedback: null,
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => {
+        const errorMessage: Message = {
+          id: aiMessageId,
+          role: 'assistant',
+          content: '抱歉，出错了。',
+          chunks: [],
+          feedback: null,
+        };
+        return prev.some(msg => msg.id === aiMessageId)
+          ? prev.map(msg => msg.id === aiMessageId ? errorMessage : msg)
+          : [...prev, errorMessage];
+      });
     } finally {
+      updateAiMessage({ streaming: false });
       setSending(false);
     }
   };
@@ -343,12 +1100,43 @@ export default function ChatPage() {
   const toggleChunks = (messageId: string) => {
     setMessages(prev => prev.map(msg => {
       if (msg.id === messageId) {
-        return { ...msg, showChunks: !msg.showChunks };
+        return { ...msg, showChunks: !msg.showChunks, activeChunk: undefined };
       }
       return msg;
     }));
   };
 
+  // 点击回答中的引用标记：展开引用列表并滚动到对应片段
+  const focusChunk = (messageId: string, chunkNumber: number) => {
+    setMessages(prev => prev.map(msg =>
+      msg.id === messageId ? { ...msg, showChunks: true, activeChunk: chunkNumber } : msg
+    ));
+    setTimeout(() => {
+      document.getElementById(`chunk-${messageId}-${chunkNumber}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, 0);
+  };
+
+  // 把回答中的 [n] 渲染为可点击的引用标记，编号超出片段数的保持原文
+  const renderAnswer = (msg: Message) => {
+    const chunks = msg.chunks || [];
+    if (msg.role !== 'assistant' || chunks.length === 0) return msg.content;
+    return msg.content.split(/(\[\d{1,2}\])/g).map((part, i) => {
+      const chunkNumber = Number(part.match(/^\[(\d{1,2})\]$/)?.[1]);
+      if (!chunkNumber || chunkNumber > chunks.length) return part;
+      return (
+        <button
+          key={i}
+          type="button"
+          onClick={() => focusChunk(msg.id, chunkNumber)}
+          className="mx-0.5 px-1 rounded bg-blue-500/20 text-blue-300 hover:bg-blue-500/40 text-[10px] align-super transition-colors"
+          title={formatChunkSource(chunks[chunkNumber - 1])}
+        >
+          {chunkNumber}
+        </button>
+      );
+    });
+  };
+
   const handleUpload = async (e: React.FormEvent) => {
     e.preventDefault();
     const fileInput = fileInputRef.current;
@@ -357,9 +1145,11 @@ export default function ChatPage() {
       return;
     }
 
-    const file = fileInput.files[0];
     const formData = new FormData();
-    formData.append('file', file);
+    Array.from(fileInput.files).forEach(file => formData.append('files', file));
+    formData.append('collectionId', collectionId);
+    formData.append('accessUsers', accessUsers);
+    formData.append('accessGroups', accessGroups);
 
     setUploading(true);
     setUploadStatus(null);
@@ -371,9 +1161,42 @@ export default function ChatPage() {
       });
       const result = await res.json();
       if (res.ok) {
-        setUploadStatus(`✅ ${result.message}`);
         fileInput.value = '';
-        fetchKnowledgeStats();
+        const details: { filename: string; path?: string; status: string; jobId?: string }[] = result.details || [];
+        const jobIds = details.filter(d => d.jobId).map(d => d.jobId as string);
+        pendingJobIdsRef.current = jobIds;
+
+        // 队列串行处理，按顺序等待每个任务
+        const jobs: IngestJob[] = [];
+        for (let i = 0; i < jobIds.length; i++) {
+          setUploadProgress(jobIds.length > 1 ? `${i + 1}/${jobIds.length}` : null);
+          jobs.push(await waitForIngestJob(jobIds[i]));
+        }
+        const skipped = details.length - jobIds.length;
+        const completed = jobs.filter(job => job.status === 'completed').length;
+        const failed = jobs.filter(job => job.status === 'failed').length;
+        const cancelled = jobs.filter(job => job.status === 'cancelled').length;
+        if (completed > 0) {
+          fetchKnowledgeStats();
+        }
+        if (details.length === 1 && jobs.length === 1) {
+          const job = jobs[0];
+          setUploadStatus(
+            job.status === 'completed' ? `✅ ${job.message}`
+              : job.status === 'cancelled' ? `ℹ️ 已取消: ${job.filename}`
+                : `❌ ${job.error || '处理失败'}`,
+          );
+        } else if (details.length === 1) {
+          setUploadStatus(`ℹ️ ${details[0].filename}: ${details[0].status}`);
+        } else {
+          const summary = [
+            `成功 ${completed} 个`,
+            failed > 0 ? `失败 ${failed} 个` : '',
+            skipped > 0 ? `跳过 ${skipped} 个` : '',
+            cancelled > 0 ? `取消 ${cancelled} 个` : '',
+          ].filter(Boolean).join('，');
+          setUploadStatus(`${failed > 0 ? '❌' : '✅'} 共 ${details.length} 个文件：${summary}`);
+        }
       } else {
         setUploadStatus(`❌ ${result.error}`);
       }
@@ -381,10 +1204,34 @@ export default function ChatPage() {
       console.error(err);
       setUploadStatus('❌ 上传出错，请重试');
     } finally {
+      setUploadJob(null);
+      setUploadProgress(null);
+      pendingJobIdsRef.current = [];
       setUploading(false);
     }
   };
 
+  // 轮询入库任务直到结束
+  const waitForIngestJob = async (jobId: string): Promise<IngestJob> => {
+    while (true) {
+      const res = await fetch(`/api/jobs/${jobId}`);
+      if (!res.ok) throw new Error('任务状态查询失败');
+      const job: IngestJob = (await res.json()).job;
+      setUploadJob(job);
+      if (job.status !== 'queued' && job.status !== 'running') return job;
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+  };
+
+  // 取消本次上传中所有未完成的任务
+  const handleCancelUpload = async () => {
+    try {
+      await Promise.all(pendingJobIdsRef.current.map(id => fetch(`/api/jobs/${id}`, { method: 'DELETE' })));
+    } catch (err) {
+      console.error('取消任务失败:', err);
+    }
+  };
+
   const handleDeleteDocument = (docId: string, filename: string) => {
     setConfirmModal({
       isOpen: true,
@@ -397,7 +1244,7 @@ export default function ChatPage() {
           const res = await fetch('/api/knowledge', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ action: 'deleteDocument', docId }),
+            body: JSON.stringify({ action: 'deleteDocument', docId, collectionId }),
           });
           if (res.ok) {
             // 立即更新本地状态，确保 UI 刷新
@@ -413,6 +1260,7 @@ export default function ChatPage() {
                 documents: newDocs,
               };
             });
+            setScopeDocIds(prev => prev.filter(id => id !== docId));
             setUploadStatus(`✅ 已删除: ${filename}`);
           }
         } catch (err) {
@@ -423,6 +1271,45 @@ export default function ChatPage() {
     });
   };
 
+  // 修改文档的可见范围：依次输入账号和分组，都留空时改为所有人可见
+  const handleEditAccess = async (doc: DocumentMeta) => {
+    const users = window.prompt(`「${doc.filename}」限定可见的账号（逗号分隔，留空不限）`, doc.access?.users.join(', ') || '');
+    if (users === null) return;
+    const groups = window.prompt(`「${doc.filename}」限定可见的分组（逗号分隔，账号和分组都留空时所有人可见）`, doc.access?.groups.join(', ') || '');
+    if (groups === null) return;
+    try {
+      const res = await fetch('/api/knowledge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'updateAccess', docId: doc.id, users: splitNames(users), groups: splitNames(groups), collectionId }),
+      });
+      const result = await res.json();
+      if (res.ok) {
+        setKnowledgeStats(prev => prev && {
+          ...prev,
+          documents: prev.documents.map(d => d.id === doc.id ? result.document : d),
+        });
+        setUploadStatus(result.document.access ? `✅ 已限定 ${doc.filename} 的可见范围` : `✅ ${doc.filename} 已改为所有人可见`);
+      } else {
+        setUploadStatus(`❌ ${result.error}`);
+      }
+    } catch (err) {
+      console.error('修改可见范围失败:', err);
+      setUploadStatus('❌ 修改可见范围失败');
+    }
+  };
+
+  const toggleScope = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const buildScopeFilter = () => {
+    if (scopeDocIds.length === 0 && scopeFileTypes.length === 0) return undefined;
+    return {
+      docIds: scopeDocIds.length > 0 ? scopeDocIds : undefined,
+      fileTypes: scopeFileTypes.length > 0 ? scopeFileTypes : undefined,
+    };
+  };
+
   const handleClearKnowledge = () => {
     setConfirmModal({
       isOpen: true,
@@ -432,9 +1319,11 @@ export default function ChatPage() {
       onConfirm: async () => {
         setConfirmModal(null);
         try {
-          const res = await fetch('/api/knowledge', { method: 'DELETE' });
+          const res = await fetch(`/api/knowledge?collectionId=${encodeURIComponent(collectionId)}`, { method: 'DELETE' });
           if (res.ok) {
-            setKnowledgeStats({ documentCount: 0, totalChunks: 0, documents: [], config: knowledgeStats?.config || { topK: 5, chunkSize: 500, chunkOverlap: 100, model: 'qwen-max', temperature: 0.3 } });
+            setKnowledgeStats({ documentCount: 0, totalChunks: 0, documents: [], config: knowledgeStats?.config || { topK: 5, chunkSize: 500, chunkOverlap: 100, model: 'qwen-max', temperature: 0.3 }, models: knowledgeStats?.models });
+            setScopeDocIds([]);
+            setScopeFileTypes([]);
             setUploadStatus('✅ 知识库已清空');
           }
         } catch (err) {
@@ -444,19 +1333,24 @@ export default function ChatPage() {
     });
   };
 
-  const handleUpdateConfig = async (updates: Partial<{ topK: number; model: string; temperature: number; chunkSize: number; chunkOverlap: number }>) => {
+  const handleUpdateConfig = async (updates: Partial<{ topK: number; model: string; temperature: number; chunkSize: number; chunkOverlap: number; retrievalMode: RetrievalMode; hybridAlpha: number; reranker: RerankerId; minScore: number; answerCacheThreshold: number }>) => {
     // 更新本地状态
     if (updates.topK !== undefined) setTopK(updates.topK);
     if (updates.model !== undefined) setModel(updates.model);
     if (updates.temperature !== undefined) setTemperature(updates.temperature);
     if (updates.chunkSize !== undefined) setChunkSize(updates.chunkSize);
     if (updates.chunkOverlap !== undefined) setChunkOverlap(updates.chunkOverlap);
+    if (updates.retrievalMode !== undefined) setRetrievalMode(updates.retrievalMode);
+    if (updates.hybridAlpha !== undefined) setHybridAlpha(updates.hybridAlpha);
+    if (updates.reranker !== undefined) setReranker(updates.reranker);
+    if (updates.minScore !== undefined) setMinScore(updates.minScore);
+    if (updates.answerCacheThreshold !== undefined) setAnswerCacheThreshold(updates.answerCacheThreshold);
     
     try {
       await fetch('/api/knowledge', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'updateConfig', config: updates }),
+        body: JSON.stringify({ action: 'updateConfig', config: updates, collectionId }),
       });
     } catch (err) {
       console.error('更新配置失败:', err);
@@ -472,12 +1366,81 @@ export default function ChatPage() {
     });
   };
 
+  const handleCreateCollection = async () => {
+    const name = window.prompt('新知识库名称')?.trim();
+    if (!name) return;
+    try {
+      const res = await fetch('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const result = await res.json();
+      if (res.ok) {
+        setCollectionId(result.collection.id);
+        setUploadStatus(`✅ 已创建知识库: ${name}`);
+      } else {
+        setUploadStatus(`❌ ${result.error}`);
+      }
+    } catch (err) {
+      console.error('创建知识库失败:', err);
+    }
+  };
+
+  const handleRenameCollection = async () => {
+    const current = knowledgeStats?.collections?.find(c => c.id === collectionId);
+    const name = window.prompt('重命名知识库', current?.name)?.trim();
+    if (!name || name === current?.name) return;
+    try {
+      const res = await fetch('/api/collections', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: collectionId, name }),
+      });
+      if (res.ok) {
+        fetchKnowledgeStats();
+      } else {
+        setUploadStatus(`❌ ${(await res.json()).error}`);
+      }
+    } catch (err) {
+      console.error('重命名知识库失败:', err);
+    }
+  };
+
+  const handleDeleteCollection = () => {
+    const current = knowledgeStats?.collections?.find(c => c.id === collectionId);
+    setConfirmModal({
+      isOpen: true,
+      title: '删除知识库',
+      message: `确定要删除知识库 "${current?.name}" 吗？其中的文档和向量数据都将被删除，且无法恢复。`,
+      danger: true,
+      onConfirm: async () => {
+        setConfirmModal(null);
+        try {
+          const res = await fetch(`/api/collections?id=${encodeURIComponent(collectionId)}`, { method: 'DELETE' });
+          if (res.ok) {
+            setCollectionId(DEFAULT_COLLECTION_ID);
+            setUploadStatus(`✅ 已删除知识库: ${current?.name}`);
+          } else {
+            setUploadStatus(`❌ ${(await res.json()).error}`);
+          }
+        } catch (err) {
+          console.error('删除知识库失败:', err);
+        }
+      },
+    });
+  };
+
   const handleReindex = async () => {
     setReindexing(true);
     setUploadStatus('⏳ 正在重建索引，请稍候...');
     
     try {
-      const res = await fetch('/api/reindex', { method: 'POST' });
+      const res = await fetch('/api/reindex', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ collectionId }),
+      });
       const result = await res.json();
       
       if (result.success) {
@@ -494,6 +1457,15 @@ export default function ChatPage() {
     }
   };
 
+  if (currentUser === undefined) {
+    return <div className="h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900" />;
+  }
+  if (currentUser === null) {
+    return <LoginForm onLogin={setCurrentUser} setupMessage={authSetupMessage} />;
+  }
+  // 读者只能问答和反馈，管理类的按钮不显示（服务端同样会校验）
+  const isAdmin = currentUser.role === 'admin';
+
   return (
     <div className="flex h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
       {/* 左侧：知识库管理 */}
@@ -506,7 +1478,53 @@ export default function ChatPage() {
           </h1>
         </div>
 
+        {/* 知识库切换 */}
+        <div className="p-4 border-b border-slate-700">
+          <h2 className="text-sm font-semibold text-slate-300 mb-3 flex items-center gap-2">
+            🗂️ 知识库
+          </h2>
+          <div className="flex items-center gap-1.5">
+            <select
+              value={collectionId}
+              onChange={(e) => setCollectionId(e.target.value)}
+              className="flex-1 min-w-0 bg-slate-700 border border-slate-600 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+            >
+              {(knowledgeStats?.collections || [{ id: DEFAULT_COLLECTION_ID, name: '默认知识库', createdAt: '' }]).map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            {isAdmin && (
+              <>
+            <button
+              onClick={handleCreateCollection}
+              className="p-1.5 text-slate-400 hover:text-emerald-400 transition-colors"
+              title="新建知识库"
+            >
+              ➕
+            </button>
+            <button
+              onClick={handleRenameCollection}
+              className="p-1.5 text-slate-400 hover:text-blue-400 transition-colors"
+              title="重命名知识库"
+            >
+              ✏️
+            </button>
+            {collectionId !== DEFAULT_COLLECTION_ID && (
+              <button
+                onClick={handleDeleteCollection}
+                className="p-1.5 text-slate-400 hover:text-red-400 transition-colors"
+                title="删除知识库"
+              >
+                🗑️
+              </button>
+            )}
+              </>
+            )}
+          </div>
+        </div>
+
         {/* 上传区域 */}
+        {isAdmin && (
         <div className="p-4 border-b border-slate-700">
           <h2 className="text-sm font-semibold text-slate-300 mb-3 flex items-center gap-2">
             📤 上传文档
@@ -515,9 +1533,31 @@ export default function ChatPage() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".pdf,.txt,.xlsx,.xls,.docx,.doc,.md,.markdown"
+              accept=".pdf,.txt,.xlsx,.xls,.docx,.doc,.md,.markdown,.zip"
+              multiple
               className="w-full text-xs text-slate-400 file:mr-2 file:py-1.5 file:px-3 file:rounded file:border-0 file:bg-blue-600 file:text-white file:text-xs file:font-medium file:cursor-pointer hover:file:bg-blue-500"
             />
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={accessUsers}
+                onChange={(e) => setAccessUsers(e.target.value)}
+                placeholder="🔒 限定账号"
+                className="min-w-0 bg-slate-700/50 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+              />
+              <input
+                type="text"
+                value={accessGroups}
+                onChange={(e) => setAccessGroups(e.target.value)}
+                placeholder="🔒 限定分组"
+                className="min-w-0 bg-slate-700/50 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            {(accessUsers.trim() || accessGroups.trim()) ? (
+              <p className="text-xs text-amber-400">仅列出的账号、分组成员和管理员可以检索到这些文档</p>
+            ) : (
+              <p className="text-xs text-slate-500">留空则所有人可见，多个名称用逗号分隔</p>
+            )}
             <button
               type="submit"
               disabled={uploading}
@@ -532,12 +1572,33 @@ export default function ChatPage() {
               )}
             </button>
           </form>
+          {uploadJob && (
+            <div className="mt-2 space-y-1">
+              <div className="flex items-center justify-between text-xs text-slate-400">
+                <span className="truncate" title={uploadJob.filename}>
+                  {uploadProgress && `[${uploadProgress}] `}
+                  {JOB_STAGE_LABELS[uploadJob.stage || 'queued']}
+                  {uploadJob.chunksTotal > 0 && ` ${uploadJob.chunksDone}/${uploadJob.chunksTotal} 片段`}
+                </span>
+                <button onClick={handleCancelUpload} className="text-red-400 hover:text-red-300 flex-shrink-0 ml-2">
+                  取消
+                </button>
+              </div>
+              <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-emerald-500 transition-all"
+                  style={{ width: `${uploadJob.chunksTotal > 0 ? (uploadJob.chunksDone / uploadJob.chunksTotal) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
           {uploadStatus && (
-            <p className={`mt-2 text-xs ${uploadStatus.startsWith('✅') ? 'text-emerald-400' : 'text-red-400'}`}>
+            <p className={`mt-2 text-xs ${uploadStatus.startsWith('❌') ? 'text-red-400' : 'text-emerald-400'}`}>
               {uploadStatus}
             </p>
           )}
         </div>
+        )}
 
         {/* 知识库统计 + 设置 */}
         <div className="p-4 border-b border-slate-700">
@@ -545,6 +1606,7 @@ export default function ChatPage() {
             <h2 className="text-sm font-semibold text-slate-300 flex items-center gap-2">
               📚 知识库
             </h2>
+            {isAdmin && (
             <div className="flex items-center gap-2">
               <button
                 onClick={() => setShowSettings(!showSettings)}
@@ -566,10 +1628,11 @@ export default function ChatPage() {
                 </button>
               )}
             </div>
+            )}
           </div>
           
           {/* 设置面板 */}
-          {showSettings && (
+          {isAdmin && showSettings && (
             <div className="mb-3 p-3 bg-slate-700/50 rounded-lg space-y-4">
               {/* 模型选择 */}
               <div>
@@ -579,7 +1642,11 @@ export default function ChatPage() {
                   onChange={(e) => handleUpdateConfig({ model: e.target.value })}
                   className="w-full bg-slate-600 border border-slate-500 rounded px-2 py-1.5 text-xs text-slate-200"
                 >
-                  {AVAILABLE_MODELS.map((m) => (
+                  {/* 当前模型不在已配置的提供方中时仍然显示，避免下拉框误显示为其他模型 */}
+                  {!knowledgeStats?.models?.some(m => m.value === model) && (
+                    <option value={model}>{model} (未配置)</option>
+                  )}
+                  {(knowledgeStats?.models || []).map((m) => (
                     <option key={m.value} value={m.value}>{m.label}</option>
                   ))}
                 </select>
@@ -622,6 +1689,93 @@ export default function ChatPage() {
                 <p className="text-xs text-slate-500">每次查询返回的相关片段数量</p>
               </div>
 
+              {/* 检索方式 */}
+              <div>
+                <label className="text-xs text-slate-400 block mb-1.5">🔍 检索方式</label>
+                <select
+                  value={retrievalMode}
+                  onChange={(e) => handleUpdateConfig({ retrievalMode: e.target.value as RetrievalMode })}
+                  className="w-full bg-slate-600 border border-slate-500 rounded px-2 py-1.5 text-xs text-slate-200"
+                >
+                  <option value="hybrid">混合检索 (向量 + 关键词)</option>
+                  <option value="vector">仅向量检索</option>
+                  <option value="keyword">仅关键词检索</option>
+                </select>
+                {retrievalMode === 'hybrid' && (
+                  <div className="mt-2">
+                    <div className="flex items-center justify-between mb-1.5">
+                      <label className="text-xs text-slate-500">向量权重</label>
+                      <span className="text-xs text-blue-400 font-mono">{hybridAlpha.toFixed(1)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.1"
+                      value={hybridAlpha}
+                      onChange={(e) => handleUpdateConfig({ hybridAlpha: Number(e.target.value) })}
+                      className="w-full h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                    <div className="flex justify-between text-xs text-slate-500 mt-1">
+                      <span>关键词</span>
+                      <span>语义</span>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* 重排序 */}
+              <div>
+                <label className="text-xs text-slate-400 block mb-1.5">🎯 重排序</label>
+                <select
+                  value={reranker}
+                  onChange={(e) => handleUpdateConfig({ reranker: e.target.value as RerankerId })}
+                  className="w-full bg-slate-600 border border-slate-500 rounded px-2 py-1.5 text-xs text-slate-200"
+                >
+                  <option value="none">不重排序</option>
+                  <option value="dashscope">DashScope gte-rerank</option>
+                  <option value="llm">大模型打分</option>
+                  <option value="local">本地关键词覆盖率</option>
+                </select>
+                <p className="text-xs text-slate-500 mt-1">预取多倍候选片段，重排后保留 Top K</p>
+              </div>
+
+              {/* 相似度阈值 */}
+              <div>
+                <div className="flex items-center justify-between mb-1.5">
+                  <label className="text-xs text-slate-400">📏 最低相似度</label>
+                  <span className="text-xs text-blue-400 font-mono">{minScore.toFixed(2)}</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="0.9"
+                  step="0.05"
+                  value={minScore}
+                  onChange={(e) => handleUpdateConfig({ minScore: Number(e.target.value) })}
+                  className="w-full h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                <p className="text-xs text-slate-500 mt-1">所有片段都低于阈值时直接回答未找到，不调用模型；0 表示不过滤</p>
+              </div>
+
+              {/* 答案缓存 */}
+              <div>
+                <div className="flex items-center justify-between mb-1.5">
+                  <label className="text-xs text-slate-400">⚡ 答案缓存阈值</label>
+                  <span className="text-xs text-blue-400 font-mono">{answerCacheThreshold > 0 ? answerCacheThreshold.toFixed(2) : '关闭'}</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={answerCacheThreshold}
+                  onChange={(e) => handleUpdateConfig({ answerCacheThreshold: Number(e.target.value) })}
+                  className="w-full h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                <p className="text-xs text-slate-500 mt-1">新问题与已回答问题的相似度达到阈值时直接返回之前的回答；文档变化后缓存失效，0 表示关闭</p>
+              </div>
+
               {/* 分割线 */}
               <div className="border-t border-slate-600 pt-3 mt-3">
                 <p className="text-xs text-slate-400 mb-3">📄 文档分割设置 (上传时生效)</p>
@@ -684,9 +1838,39 @@ export default function ChatPage() {
         <div className="flex-1 overflow-y-auto p-4">
           <h2 className="text-sm font-semibold text-slate-300 mb-3 flex items-center gap-2">
             📋 文档列表
+            {(scopeDocIds.length > 0 || scopeFileTypes.length > 0) && (
+              <button
+                onClick={() => { setScopeDocIds([]); setScopeFileTypes([]); }}
+                className="ml-auto text-xs font-normal text-blue-400 hover:text-blue-300"
+                title="取消勾选，在全部文档中检索"
+              >
+                清除范围
+              </button>
+            )}
           </h2>
           {knowledgeStats && knowledgeStats.documents.length > 0 ? (
             <div className="space-y-2">
+              {/* 按文件类型限定检索范围 */}
+              <div className="flex flex-wrap gap-1.5 mb-1">
+                {Array.from(new Set(knowledgeStats.documents.map(d => d.fileType))).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => setScopeFileTypes(prev => toggleScope(prev, type))}
+                    className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${
+                      scopeFileTypes.includes(type)
+                        ? 'bg-blue-600/30 border-blue-500 text-blue-300'
+                        : 'border-slate-600 text-slate-400 hover:border-slate-500'
+                    }`}
+                  >
+                    {type}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500">
+                {scopeDocIds.length > 0 || scopeFileTypes.length > 0
+                  ? '仅在勾选的文档 / 类型中回答'
+                  : '勾选文档可限定问答范围'}
+              </p>
               {[...knowledgeStats.documents].sort((a, b) => 
                 new Date(b.uploadTime).getTime() - new Date(a.uploadTime).getTime()
               ).map((doc) => (
@@ -695,6 +1879,13 @@ export default function ChatPage() {
                   className="bg-slate-700/30 hover:bg-slate-700/50 rounded-lg p-3 transition-colors group"
                 >
                   <div className="flex items-start gap-2">
+                    <input
+                      type="checkbox"
+                      checked={scopeDocIds.includes(doc.id)}
+                      onChange={() => setScopeDocIds(prev => toggleScope(prev, doc.id))}
+                      className="mt-1.5 flex-shrink-0 accent-blue-500"
+                      title="只在此文档中检索"
+                    />
                     <span className="text-lg flex-shrink-0">
                       {doc.fileType === 'PDF' ? '📕' : 
                        doc.fileType === 'Word' ? '📘' : 
@@ -702,15 +1893,36 @@ export default function ChatPage() {
                        doc.fileType === 'Markdown' ? '📝' : '📄'}
                     </span>
                     <div className="flex-1 min-w-0">
-                      <p className="text-sm text-slate-200 truncate" title={doc.filename}>
+                      <p className="text-sm text-slate-200 truncate" title={doc.path || doc.filename}>
                         {doc.filename}
                       </p>
+                      {doc.path && (
+                        <p className="text-xs text-slate-500 truncate" title={doc.path}>
+                          📁 {doc.path.split('/').slice(0, -1).join('/')}
+                        </p>
+                      )}
                       <div className="flex items-center gap-2 mt-1 text-xs text-slate-500">
                         <span>{doc.chunkCount} 片段</span>
                         <span>•</span>
                         <span>{formatTime(doc.uploadTime)}</span>
+                        {doc.access && (
+                          <>
+                            <span>•</span>
+                            <span className="text-amber-400 truncate" title={formatAccess(doc.access)}>🔒 限定可见</span>
+                          </>
+                        )}
                       </div>
                     </div>
+                    {isAdmin && (
+                    <button
+                      onClick={() => handleEditAccess(doc)}
+                      className="opacity-0 group-hover:opacity-100 p-1 text-slate-400 hover:text-amber-400 transition-all"
+                      title="设置可见范围"
+                    >
+                      🔒
+                    </button>
+                    )}
+                    {isAdmin && (
                     <button
                       onClick={() => handleDeleteDocument(doc.id, doc.filename)}
                       className="opacity-0 group-hover:opacity-100 p-1 text-red-400 hover:text-red-300 transition-all"
@@ -720,6 +1932,7 @@ export default function ChatPage() {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                       </svg>
                     </button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -727,6 +1940,8 @@ export default function ChatPage() {
           ) : (
             <div className="text-center py-8">
               <p className="text-slate-500 text-sm">📭 暂无文档</p>
+              {isAdmin ? (
+                <>
               <p className="text-slate-600 text-xs mt-1">上传 PDF、Word、Excel、Markdown、TXT 开始</p>
               <button
                 onClick={handleReindex}
@@ -736,11 +1951,16 @@ export default function ChatPage() {
                 {reindexing ? '⏳ 重建中...' : '🔄 重建 uploads 目录索引'}
               </button>
               <p className="text-slate-600 text-xs mt-2">如果 uploads 目录有文件，点击重建索引</p>
+                </>
+              ) : (
+                <p className="text-slate-600 text-xs mt-1">请联系管理员上传文档</p>
+              )}
             </div>
           )}
         </div>
 
         {/* 反馈报告入口 */}
+        {isAdmin && (
         <div className="p-4 border-t border-slate-700">
           <button
             onClick={() => setShowFeedbackReport(!showFeedbackReport)}
@@ -753,10 +1973,11 @@ export default function ChatPage() {
             📊 {showFeedbackReport ? '隐藏反馈报告' : '查看反馈报告'}
           </button>
         </div>
+        )}
 
         {/* 底部信息 */}
         <div className="p-4 border-t border-slate-700 text-center">
-          <p className="text-xs text-slate-600">支持 PDF、Word、Excel、Markdown、TXT</p>
+          <p className="text-xs text-slate-600">支持 PDF、Word、Excel、Markdown、TXT，可多选或上传 ZIP</p>
         </div>
       </aside>
 
@@ -772,11 +1993,52 @@ export default function ChatPage() {
               </h2>
               <p className="text-xs text-slate-500">基于知识库的 RAG 检索增强生成 | Top K: {topK}</p>
             </div>
-            {knowledgeStats && knowledgeStats.documentCount > 0 && (
-              <span className="text-xs text-emerald-400 bg-emerald-400/10 px-3 py-1 rounded-full">
-                ✅ 知识库就绪
-              </span>
-            )}
+            <div className="flex items-center gap-3">
+              {knowledgeStats && knowledgeStats.documentCount > 0 && (
+                <span className="text-xs text-emerald-400 bg-emerald-400/10 px-3 py-1 rounded-full">
+                  ✅ 知识库就绪
+                </span>
+              )}
+              {currentUser.type === 'session' && (
+                <>
+                  {isAdmin && (
+                    <>
+                      <button
+                        onClick={() => setShowUsers(true)}
+                        className="text-xs text-slate-400 hover:text-slate-200 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors"
+                        title="管理账号"
+                      >
+                        👥 账号
+                      </button>
+                      <button
+                        onClick={() => setShowUsage(true)}
+                        className="text-xs text-slate-400 hover:text-slate-200 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors"
+                        title="查看问答用量"
+                      >
+                        📈 用量
+                      </button>
+                      <button
+                        onClick={() => setShowApiKeys(true)}
+                        className="text-xs text-slate-400 hover:text-slate-200 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors"
+                        title="管理 API Key"
+                      >
+                        🔑 API Key
+                      </button>
+                    </>
+                  )}
+                  <span className="text-xs text-slate-400">
+                    👤 {currentUser.username}
+                    {!isAdmin && <span className="text-slate-500">（读者）</span>}
+                  </span>
+                  <button
+                    onClick={handleLogout}
+                    className="text-xs text-slate-400 hover:text-red-400 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors"
+                  >
+                    退出
+                  </button>
+                </>
+              )}
+            </div>
           </div>
         </header>
 
@@ -822,7 +2084,7 @@ export default function ChatPage() {
             </div>
           ) : (
             <>
-              {messages.map((msg) => (
+              {messages.filter(msg => !(msg.streaming && !msg.content)).map((msg) => (
                 <div
                   key={msg.id}
                   className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -835,14 +2097,22 @@ export default function ChatPage() {
                           : 'bg-slate-700/80 text-slate-100 rounded-bl-md'
                       }`}
                     >
-                      <p className="text-xs opacity-60 mb-1">
-                        {msg.role === 'user' ? '你' : '🤖 AI'}
+                      <p className="text-xs mb-1">
+                        <span className="opacity-60">{msg.role === 'user' ? '你' : '🤖 AI'}</span>
+                        {msg.cache && (
+                          <span
+                            className="ml-2 text-amber-400"
+                            title={`与之前的问题「${msg.cache.question}」相似度 ${msg.cache.similarity.toFixed(2)}，回答缓存于 ${new Date(msg.cache.cachedAt).toLocaleString('zh-CN')}`}
+                          >
+                            ⚡ 缓存回答
+                          </span>
+                        )}
                       </p>
-                      <p className="whitespace-pre-wrap text-sm leading-relaxed">{msg.content}</p>
+                      <p className="whitespace-pre-wrap text-sm leading-relaxed">{renderAnswer(msg)}</p>
                     </div>
                     
                     {/* AI 回答的操作按钮 */}
-                    {msg.role === 'assistant' && (
+                    {msg.role === 'assistant' && !msg.streaming && (
                       <>
                         <div className="flex items-center gap-1 ml-2">
                           {/* 复制按钮 */}
@@ -914,17 +2184,47 @@ export default function ChatPage() {
                           <div className="ml-2 mt-2 p-3 bg-slate-800/50 rounded-lg border border-slate-600 space-y-3">
                             <div className="flex items-center justify-between">
                               <span className="text-xs font-medium text-slate-400">📚 引用片段 ({msg.chunks.length})</span>
+                              {msg.citations && msg.citations.length > 0 && (
+                                <span className="text-xs text-slate-500">回答引用了其中 {msg.citations.length} 个</span>
+                              )}
                             </div>
                             <div className="space-y-2 max-h-60 overflow-y-auto">
                               {msg.chunks.map((chunk, idx) => (
-                                <div key={idx} className="p-2 bg-slate-700/50 rounded text-xs">
+                                <div
+                                  key={idx}
+                                  id={`chunk-${msg.id}-${idx + 1}`}
+                                  className={`p-2 bg-slate-700/50 rounded text-xs ${
+                                    msg.activeChunk === idx + 1 ? 'ring-1 ring-blue-400' : ''
+                                  }`}
+                                >
                                   <div className="flex items-center gap-2 mb-1">
                                     <span className="bg-blue-500/20 text-blue-400 px-1.5 py-0.5 rounded text-xs">
                                       #{idx + 1}
                                     </span>
-                                    <span className="text-slate-500 truncate">{chunk.source}</span>
+                                    {msg.citations?.includes(idx + 1) && (
+                                      <span className="text-emerald-400/80 flex-shrink-0" title="回答中引用了该片段">已引用</span>
+                                    )}
+                                    <span
+                                      className="text-slate-500 truncate"
+                                      title={chunk.headingPath ? `${formatChunkSource(chunk)} · ${chunk.headingPath}` : formatChunkSource(chunk)}
+                                    >
+                                      {formatChunkSource(chunk)}
+                                      {chunk.headingPath && <span className="text-slate-400"> · {chunk.headingPath}</span>}
+                                    </span>
+                                    <span className="ml-auto flex-shrink-0 flex items-center gap-2">
+                                      {chunk.score !== undefined && (
+                                        <span className="text-blue-400/80" title="向量相似度">
+                                          相似度 {chunk.score.toFixed(2)}
+                                        </span>
+                                      )}
+                                      {chunk.rerankScore !== undefined && (
+                                        <span className="text-emerald-400/80" title="重排序相关度">
+                                          相关度 {chunk.rerankScore.toFixed(2)}
+                                        </span>
+                                      )}
+                                    </span>
                                   </div>
-                                  <p className="text-slate-300 leading-relaxed line-clamp-4">
+                                  <p className={`text-slate-300 leading-relaxed ${msg.activeChunk === idx + 1 ? 'whitespace-pre-wrap' : 'line-clamp-4'}`}>
                                     {chunk.content}
                                   </p>
                                 </div>
@@ -955,7 +2255,7 @@ export default function ChatPage() {
                   </div>
                 </div>
               ))}
-              {sending && (
+              {sending && !messages.some(m => m.streaming && m.content) && (
                 <div className="flex justify-start">
                   <div className="bg-slate-700/80 text-slate-100 px-4 py-3 rounded-2xl rounded-bl-md">
                     <p className="text-xs opacity-60 mb-1">🤖 AI</p>
@@ -1011,6 +2311,15 @@ export default function ChatPage() {
         />
       )}
 
+      {/* API Key 管理弹窗 */}
+      {showApiKeys && <ApiKeysModal onClose={() => setShowApiKeys(false)} />}
+
+      {/* 账号管理弹窗 */}
+      {showUsers && <UsersModal currentUsername={currentUser.username} onClose={() => setShowUsers(false)} />}
+
+      {/* 用量弹窗 */}
+      {showUsage && <UsageModal onClose={() => setShowUsage(false)} />}
+
       {/* 反馈报告弹窗 */}
       {showFeedbackReport && (
         <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -0,0 +1,97 @@
+import { cosineSimilarity } from './hybrid-search';
+import type { RetrievedChunk } from './rag';
+
+// 语义答案缓存：按问题的向量查找相似的已回答问题，命中时直接返回缓存的回答，不再调用大模型
+// 只保存在内存中；知识库版本变化（上传、删除、重建索引、修改可见范围）后该知识库的缓存全部失效
+
+// 缓存条目的最长保留时间和数量上限
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 500;
+
+export interface CachedAnswer {
+  answer: string;
+  chunks: RetrievedChunk[];
+  citations: number[];
+  suggestedQuestions: string[];
+}
+
+// 命中时附在回答中，说明来自哪个已缓存的问题
+export interface AnswerCacheInfo {
+  question: string;
+  similarity: number;
+  cachedAt: string;
+}
+
+interface CacheEntry {
+  collectionId: string;
+  scope: string;      // 检索参数、配置和调用方可见文档的组合，不同时不能共用回答
+  revision: number;   // 缓存时的知识库版本
+  question: string;
+  vector: number[];
+  result: CachedAnswer;
+  cachedAt: number;
+}
+
+declare global {
+  var answerCache: CacheEntry[] | undefined;
+}
+
+function getEntries(): CacheEntry[] {
+  if (!global.answerCache) {
+    global.answerCache = [];
+  }
+  return global.answerCache;
+}
+
+// 去掉过期和知识库已变化的条目
+function pruneEntries(collectionId: string, revision: number) {
+  const now = Date.now();
+  global.answerCache = getEntries().filter(entry =>
+    now - entry.cachedAt < CACHE_TTL_MS && (entry.collectionId !== collectionId || entry.revision === revision),
+  );
+}
+
+// 查找与问题最相似且达到阈值的缓存回答
+export function findCachedAnswer(
+  collectionId: string,
+  scope: string,
+  revision: number,
+  vector: number[],
+  threshold: number,
+): { result: CachedAnswer; cache: AnswerCacheInfo } | undefined {
+  pruneEntries(collectionId, revision);
+
+  let best: CacheEntry | undefined;
+  let bestSimilarity = threshold;
+  for (const entry of getEntries()) {
+    if (entry.collectionId !== collectionId || entry.scope !== scope) continue;
+    const similarity = cosineSimilarity(vector, entry.vector);
+    if (similarity >= bestSimilarity) {
+      best = entry;
+      bestSimilarity = similarity;
+    }
+  }
+  if (!best) return undefined;
+
+  // 命中的条目移到末尾，超出上限时先淘汰最久未使用的
+  global.answerCache = [...getEntries().filter(entry => entry !== best), best];
+  return {
+    result: best.result,
+    cache: { question: best.question, similarity: bestSimilarity, cachedAt: new Date(best.cachedAt).toISOString() },
+  };
+}
+
+export function storeCachedAnswer(
+  collectionId: string,
+  scope: string,
+  revision: number,
+  question: string,
+  vector: number[],
+  result: CachedAnswer,
+) {
+  const entries = getEntries();
+  entries.push({ collectionId, scope, revision, question, vector, result, cachedAt: Date.now() });
+  if (entries.length > MAX_CACHE_ENTRIES) {
+    entries.splice(0, entries.length - MAX_CACHE_ENTRIES);
+  }
+}
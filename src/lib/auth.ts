@@ -0,0 +1,390 @@
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { promisify } from 'util';
+import { NextRequest } from 'next/server';
+import type { DocumentMeta } from './vector-store';
+import { isAuthDisabled, readApiKey, readSessionToken } from './credentials';
+
+export { SESSION_COOKIE, isAuthDisabled } from './credentials';
+
+// 认证：网页端使用登录会话（HMAC 签名的 Cookie），程序调用使用 API Key
+// （请求头 Authorization: Bearer <key> 或 X-API-Key），API Key 只保存哈希值
+// 角色：reader 只能问答和反馈，admin 还可以上传、删除、重建索引、修改配置、查看和导出反馈、管理账号与 API Key
+// 分组：设置了可见范围的文档只对列出的账号和分组成员可见（管理员除外）
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const AUTH_DIR = './data';
+const AUTH_FILE = 'auth.json';
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+const API_KEY_PREFIX = 'rag_';
+export const MIN_PASSWORD_LENGTH = 8;
+// 示例配置中的占位密码，不能用于创建管理员
+const PLACEHOLDER_PASSWORDS = ['change_me'];
+
+export type Role = 'admin' | 'reader';
+
+export interface UserRecord {
+  username: string;
+  passwordHash: string;  // scrypt$<salt>$<hash>
+  role: Role;
+  groups: string[];      // 所属分组，用于文档可见范围
+  createdAt: string;
+}
+
+// 返回给前端的账号信息，不含密码哈希
+export type UserInfo = Omit<UserRecord, 'passwordHash'>;
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  prefix: string;        // 密钥开头几位，便于在列表中辨认
+  hash: string;          // sha256(密钥)
+  role: Role;            // 密钥的权限，不超过创建者当前的角色
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+// 返回给前端的密钥信息，不含哈希
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'hash'>;
+
+interface AuthStore {
+  secret: string;        // 会话签名密钥，未设置 AUTH_SECRET 时自动生成并保存
+  users: UserRecord[];
+  apiKeys: ApiKeyRecord[];
+}
+
+// 当前请求的调用方
+export interface Principal {
+  type: 'session' | 'apiKey' | 'anonymous';
+  username: string;      // API Key 以创建者的身份调用
+  role: Role;
+  groups: string[];      // API Key 沿用创建者的分组
+  keyId?: string;
+}
+
+declare global {
+  var authStore: AuthStore | undefined;
+  var authStoreLoading: Promise<AuthStore> | undefined;
+  var authStorePersisting: Promise<void> | undefined;
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// 读取认证数据，并按 ADMIN_USERNAME / ADMIN_PASSWORD 创建或更新管理员账号
+async function loadAuthStore(): Promise<AuthStore> {
+  const filePath = join(AUTH_DIR, AUTH_FILE);
+  let store: AuthStore = { secret: '', users: [], apiKeys: [] };
+  try {
+    store = { ...store, ...JSON.parse(await readFile(filePath, 'utf-8')) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[Auth] 读取 ${filePath} 失败:`, error);
+    }
+  }
+
+  const adminUsername = process.env.ADMIN_USERNAME?.trim();
+  const adminPassword = process.env.ADMIN_PASSWORD;
+
+  // 旧数据没有角色字段：账号默认为 reader（环境变量中的管理员除外），API Key 默认为 reader
+  store.users.forEach(u => {
+    u.role = u.role || (u.username === adminUsername ? 'admin' : 'reader');
+    u.groups = u.groups || [];
+  });
+  store.apiKeys.forEach(k => { k.role = k.role || 'reader'; });
+
+  let changed = false;
+  if (!store.secret) {
+    store.secret = randomBytes(32).toString('hex');
+    changed = true;
+  }
+
+  if (adminUsername && adminPassword && (adminPassword.length < MIN_PASSWORD_LENGTH || PLACEHOLDER_PASSWORDS.includes(adminPassword))) {
+    console.error(`[Auth] ADMIN_PASSWORD 过于简单（至少 ${MIN_PASSWORD_LENGTH} 位且不能是示例密码），未创建或更新管理员账号 ${adminUsername}`);
+  } else if (adminUsername && adminPassword) {
+    const admin = store.users.find(u => u.username === adminUsername);
+    if (!admin) {
+      store.users.push({
+        username: adminUsername,
+        passwordHash: await hashPassword(adminPassword),
+        role: 'admin',
+        groups: [],
+        createdAt: new Date().toISOString(),
+      });
+      console.log(`[Auth] 已创建管理员账号: ${adminUsername}`);
+      changed = true;
+    } else if (!(await verifyPassword(adminPassword, admin.passwordHash))) {
+      // 环境变量中的密码为准，修改 ADMIN_PASSWORD 后重启即生效
+      admin.passwordHash = await hashPassword(adminPassword);
+      console.log(`[Auth] 已更新管理员密码: ${adminUsername}`);
+      changed = true;
+    }
+    if (admin && admin.role !== 'admin') {
+      admin.role = 'admin';
+      changed = true;
+    }
+  }
+
+  global.authStore = store;
+  if (changed) {
+    await persistAuthStore();
+  }
+  return store;
+}
+
+async function getAuthStore(): Promise<AuthStore> {
+  if (global.authStore) {
+    return global.authStore;
+  }
+  if (!global.authStoreLoading) {
+    global.authStoreLoading = loadAuthStore().finally(() => {
+      global.authStoreLoading = undefined;
+    });
+  }
+  return global.authStoreLoading;
+}
+
+function persistAuthStore(): Promise<void> {
+  const previous = global.authStorePersisting || Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    await mkdir(AUTH_DIR, { recursive: true });
+    const filePath = join(AUTH_DIR, AUTH_FILE);
+    const tmpPath = `${filePath}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(global.authStore, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    await rename(tmpPath, filePath);
+  });
+  global.authStorePersisting = next;
+  return next;
+}
+
+// 是否已有可登录的账号（未配置管理员时前端提示设置环境变量）
+export async function hasUsers(): Promise<boolean> {
+  return (await getAuthStore()).users.length > 0;
+}
+
+// 校验用户名和密码，成功时返回账号信息
+export async function verifyLogin(username: string, password: string): Promise<UserInfo | null> {
+  const user = (await getAuthStore()).users.find(u => u.username === username);
+  return user && await verifyPassword(password, user.passwordHash) ? toUserInfo(user) : null;
+}
+
+// 环境变量中配置的管理员，不能在页面中删除或降级
+export function isBootstrapAdmin(username: string): boolean {
+  return username === process.env.ADMIN_USERNAME?.trim();
+}
+
+function toUserInfo({ passwordHash: _passwordHash, ...info }: UserRecord): UserInfo {
+  return info;
+}
+
+export async function listUsers(): Promise<UserInfo[]> {
+  return (await getAuthStore()).users.map(toUserInfo);
+}
+
+// 新建账号，用户名已存在时返回 undefined
+export async function createUser(username: string, password: string, role: Role, groups: string[] = []): Promise<UserInfo | undefined> {
+  const store = await getAuthStore();
+  if (store.users.some(u => u.username === username)) return undefined;
+  const user: UserRecord = { username, passwordHash: await hashPassword(password), role, groups, createdAt: new Date().toISOString() };
+  store.users.push(user);
+  await persistAuthStore();
+  console.log(`[Auth] 已创建账号: ${username} (${role})`);
+  return toUserInfo(user);
+}
+
+// 修改角色、分组或重置密码
+export async function updateUser(
+  username: string,
+  updates: { role?: Role; groups?: string[]; password?: string },
+): Promise<UserInfo | undefined> {
+  const store = await getAuthStore();
+  const user = store.users.find(u => u.username === username);
+  if (!user) return undefined;
+  if (updates.role) user.role = updates.role;
+  // 降级为读者后，该账号创建的管理员密钥同时降级
+  if (user.role === 'reader') {
+    store.apiKeys
+      .filter(k => k.createdBy === username && k.role === 'admin')
+      .forEach(k => {
+        k.role = 'reader';
+        console.log(`[Auth] ${username} 已降级，API Key ${k.name} (${k.id}) 同时降级为 reader`);
+      });
+  }
+  if (updates.groups) user.groups = updates.groups;
+  if (updates.password) user.passwordHash = await hashPassword(updates.password);
+  await persistAuthStore();
+  return toUserInfo(user);
+}
+
+// 删除账号，同时吊销该账号创建的 API Key（会话在下次请求时失效）
+export async function deleteUser(username: string): Promise<boolean> {
+  const store = await getAuthStore();
+  if (!store.users.some(u => u.username === username)) return false;
+  store.users = store.users.filter(u => u.username !== username);
+  store.apiKeys = store.apiKeys.filter(k => k.createdBy !== username);
+  await persistAuthStore();
+  console.log(`[Auth] 已删除账号: ${username}`);
+  return true;
+}
+
+async function getSessionSecret(): Promise<string> {
+  return process.env.AUTH_SECRET || (await getAuthStore()).secret;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+// 会话令牌：base64url(JSON{用户名, 过期时间}).签名
+export async function createSessionToken(username: string): Promise<string> {
+  const payload = Buffer.from(JSON.stringify({ u: username, exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS })).toString('base64url');
+  return `${payload}.${sign(payload, await getSessionSecret())}`;
+}
+
+async function verifySessionToken(token: string): Promise<UserRecord | null> {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, await getSessionSecret()));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const { u, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    if (typeof u !== 'string' || typeof exp !== 'number' || exp * 1000 < Date.now()) return null;
+    // 每次请求都按账号当前的状态判断：账号被删除后会话立即失效，角色修改立即生效
+    return (await getAuthStore()).users.find(user => user.username === u) || null;
+  } catch {
+    return null;
+  }
+}
+
+function toApiKeyInfo({ hash: _hash, ...info }: ApiKeyRecord): ApiKeyInfo {
+  return info;
+}
+
+export async function listApiKeys(): Promise<ApiKeyInfo[]> {
+  return (await getAuthStore()).apiKeys.map(toApiKeyInfo);
+}
+
+// 新建 API Key，明文只在创建时返回一次
+export async function createApiKey(name: string, role: Role, createdBy: string): Promise<{ key: string; apiKey: ApiKeyInfo }> {
+  const store = await getAuthStore();
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id: `key_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    hash: hashApiKey(key),
+    role,
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  store.apiKeys.push(record);
+  await persistAuthStore();
+  console.log(`[Auth] ${createdBy} 创建了 API Key: ${name} (${record.id})`);
+  return { key, apiKey: toApiKeyInfo(record) };
+}
+
+export async function revokeApiKey(keyId: string): Promise<boolean> {
+  const store = await getAuthStore();
+  const index = store.apiKeys.findIndex(k => k.id === keyId);
+  if (index === -1) return false;
+  const [removed] = store.apiKeys.splice(index, 1);
+  await persistAuthStore();
+  console.log(`[Auth] 已吊销 API Key: ${removed.name} (${removed.id})`);
+  return true;
+}
+
+// 最近使用时间只精确到分钟，避免每个请求都写文件
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+async function verifyApiKey(key: string): Promise<ApiKeyRecord | null> {
+  const hash = hashApiKey(key);
+  const record = (await getAuthStore()).apiKeys.find(k => k.hash === hash);
+  if (!record) return null;
+
+  const now = Date.now();
+  if (!record.lastUsedAt || now - new Date(record.lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS) {
+    record.lastUsedAt = new Date(now).toISOString();
+    persistAuthStore().catch(error => console.error('[Auth] 保存失败:', error));
+  }
+  return record;
+}
+
+// 依次检查 API Key 和会话 Cookie，都无效时返回 null
+export async function authenticate(req: NextRequest): Promise<Principal | null> {
+  if (isAuthDisabled()) {
+    return { type: 'anonymous', username: 'anonymous', role: 'admin', groups: [] };
+  }
+
+  const apiKey = readApiKey(req);
+  if (apiKey) {
+    const record = await verifyApiKey(apiKey);
+    if (!record) return null;
+    const creator = (await getAuthStore()).users.find(u => u.username === record.createdBy);
+    // 密钥的权限不超过创建者当前的角色，创建者降级后管理员密钥立即失去管理权限
+    const role: Role = record.role === 'admin' && creator?.role === 'admin' ? 'admin' : 'reader';
+    return { type: 'apiKey', username: record.createdBy, role, groups: creator?.groups || [], keyId: record.id };
+  }
+
+  const token = readSessionToken(req);
+  if (token) {
+    const user = await verifySessionToken(token);
+    return user ? { type: 'session', username: user.username, role: user.role, groups: user.groups } : null;
+  }
+  return null;
+}
+
+type RouteHandler<C> = (req: NextRequest, context: C) => Promise<Response>;
+
+export function isAdmin(principal: Principal): boolean {
+  return principal.role === 'admin';
+}
+
+// 文档是否对调用方可见：未设置可见范围的文档所有人可见，管理员可以看到全部文档
+export function canViewDocument(meta: DocumentMeta, principal: Principal): boolean {
+  if (!meta.access || isAdmin(principal)) return true;
+  const { users, groups } = meta.access;
+  return users.includes(principal.username) || principal.groups.some(group => groups.includes(group));
+}
+
+export function forbidden(): Response {
+  return Response.json({ error: '需要管理员权限' }, { status: 403 });
+}
+
+// 路由处理函数的完整认证：校验凭证，未通过返回 401，角色不足返回 403，通过后把调用方传给处理函数
+// （middleware.ts 只拦截未携带任何凭证的请求，签名、过期和角色在这里检查）
+export function withAuth<C = unknown>(
+  handler: (req: NextRequest, context: C, principal: Principal) => Promise<Response>,
+  options: { role?: Role } = {}
+): RouteHandler<C> {
+  return async (req, context) => {
+    const principal = await authenticate(req);
+    if (!principal) {
+      return Response.json({ error: '未登录或凭证无效' }, { status: 401 });
+    }
+    if (options.role === 'admin' && !isAdmin(principal)) {
+      return forbidden();
+    }
+    return handler(req, context, principal);
+  };
+}
@@ -0,0 +1,22 @@
+import type { NextRequest } from 'next/server';
+
+// 读取请求中携带的凭证，不依赖 Node 模块，供 auth.ts 和运行在 Edge 环境的 middleware.ts 共用
+
+export const SESSION_COOKIE = 'rag_session';
+
+// AUTH_DISABLED=true 时关闭认证，仅用于本地开发
+export function isAuthDisabled(): boolean {
+  return process.env.AUTH_DISABLED === 'true';
+}
+
+export function readApiKey(req: NextRequest): string | null {
+  const header = req.headers.get('authorization');
+  if (header?.toLowerCase().startsWith('bearer ')) {
+    return header.slice(7).trim();
+  }
+  return req.headers.get('x-api-key')?.trim() || null;
+}
+
+export function readSessionToken(req: NextRequest): string | null {
+  return req.cookies.get(SESSION_COOKIE)?.value || null;
+}
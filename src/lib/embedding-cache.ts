@@ -0,0 +1,148 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { EmbeddingProviderInfo } from './embeddings';
+
+// 持久化的嵌入缓存：按（嵌入模型, 规范化后文本的哈希）保存向量，
+// 重建索引、重新上传或只修改分块重叠时，内容没变的片段不再调用嵌入接口
+
+const CACHE_FILE = 'embedding-cache.json';
+const CACHE_FILE_VERSION = 1;
+// 批量入库时多次写入合并为一次
+const PERSIST_DELAY_MS = 2000;
+
+// 向量以 Float32 的 base64 保存，约为 JSON 数组的四分之一大小
+interface PersistedEmbeddingCache {
+  version: number;
+  entries: [string, string][];  // [键, base64 向量]，按最近使用的顺序
+}
+
+declare global {
+  var embeddingCache: Map<string, number[]> | undefined;
+  var embeddingCacheLoading: Promise<Map<string, number[]>> | undefined;
+  var embeddingCachePersistTimer: ReturnType<typeof setTimeout> | undefined;
+  var embeddingCachePersisting: Promise<void> | undefined;
+}
+
+function getCacheFilePath() {
+  return join(process.env.VECTOR_STORE_PATH || './.milvus', CACHE_FILE);
+}
+
+// 缓存条目上限，超出时淘汰最久未使用的；设为 0 关闭缓存
+function getMaxEntries(): number {
+  const value = Number(process.env.EMBEDDING_CACHE_MAX_ENTRIES ?? 20000);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+export function isEmbeddingCacheEnabled(): boolean {
+  return getMaxEntries() > 0;
+}
+
+// 只有空白不同的文本视为相同内容
+function normalizeText(text: string): string {
+  return text.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+export function embeddingCacheKey(info: Pick<EmbeddingProviderInfo, 'provider' | 'model' | 'dimension'>, text: string): string {
+  const hash = createHash('sha256').update(normalizeText(text)).digest('hex');
+  return `${info.provider}/${info.model}/${info.dimension}:${hash}`;
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): number[] {
+  const buffer = Buffer.from(encoded, 'base64');
+  return Array.from(new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4));
+}
+
+async function loadEmbeddingCache(): Promise<Map<string, number[]>> {
+  const filePath = getCacheFilePath();
+  const cache = new Map<string, number[]>();
+  try {
+    const persisted: PersistedEmbeddingCache = JSON.parse(await readFile(filePath, 'utf-8'));
+    if (persisted.version === CACHE_FILE_VERSION) {
+      persisted.entries.forEach(([key, encoded]) => cache.set(key, decodeVector(encoded)));
+      console.log(`[EmbeddingCache] 已从 ${filePath} 恢复 ${cache.size} 个向量`);
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[EmbeddingCache] 读取 ${filePath} 失败，将使用空缓存:`, error);
+    }
+  }
+  global.embeddingCache = cache;
+  return cache;
+}
+
+function getEmbeddingCache(): Promise<Map<string, number[]>> {
+  if (global.embeddingCache) {
+    return Promise.resolve(global.embeddingCache);
+  }
+  if (!global.embeddingCacheLoading) {
+    global.embeddingCacheLoading = loadEmbeddingCache().finally(() => {
+      global.embeddingCacheLoading = undefined;
+    });
+  }
+  return global.embeddingCacheLoading;
+}
+
+async function writeEmbeddingCache() {
+  const cache = global.embeddingCache;
+  if (!cache) return;
+
+  const data: PersistedEmbeddingCache = {
+    version: CACHE_FILE_VERSION,
+    entries: Array.from(cache, ([key, vector]) => [key, encodeVector(vector)]),
+  };
+  const filePath = getCacheFilePath();
+  const tmpPath = `${filePath}.tmp`;
+  await mkdir(join(filePath, '..'), { recursive: true });
+  await writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+  await rename(tmpPath, filePath);
+  console.log(`[EmbeddingCache] 已保存 ${cache.size} 个向量`);
+}
+
+// 延迟写入，写入之间串行执行
+function schedulePersist() {
+  if (global.embeddingCachePersistTimer) return;
+  global.embeddingCachePersistTimer = setTimeout(() => {
+    global.embeddingCachePersistTimer = undefined;
+    const previous = global.embeddingCachePersisting || Promise.resolve();
+    global.embeddingCachePersisting = previous
+      .then(writeEmbeddingCache)
+      .catch(error => console.error('[EmbeddingCache] 保存失败:', error));
+  }, PERSIST_DELAY_MS);
+}
+
+// 按键查找缓存的向量，命中的条目移到最近使用的位置；
+// 使用顺序只保存在内存中，随下一次新增或淘汰条目时一起写入，全部命中时不重写文件
+export async function getCachedEmbeddings(keys: string[]): Promise<(number[] | undefined)[]> {
+  if (!isEmbeddingCacheEnabled()) return keys.map(() => undefined);
+
+  const cache = await getEmbeddingCache();
+  return keys.map(key => {
+    const vector = cache.get(key);
+    if (vector) {
+      cache.delete(key);
+      cache.set(key, vector);
+    }
+    return vector;
+  });
+}
+
+export async function cacheEmbeddings(entries: [string, number[]][]) {
+  if (!isEmbeddingCacheEnabled() || entries.length === 0) return;
+
+  const cache = await getEmbeddingCache();
+  entries.forEach(([key, vector]) => {
+    cache.delete(key);
+    cache.set(key, vector);
+  });
+  // Map 按插入顺序遍历，最前面的是最久未使用的
+  const overflow = cache.size - getMaxEntries();
+  if (overflow > 0) {
+    Array.from(cache.keys()).slice(0, overflow).forEach(key => cache.delete(key));
+  }
+  schedulePersist();
+}
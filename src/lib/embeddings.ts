@@ -1,91 +1,267 @@
 import { Embeddings } from '@langchain/core/embeddings';
+import { cacheEmbeddings, embeddingCacheKey, getCachedEmbeddings } from './embedding-cache';
+import { getDashScopeBaseUrl } from './llm';
 
-// 使用阿里云 DashScope 文本嵌入模型
-export class DashScopeEmbeddings extends Embeddings {
-  private apiKey: string;
-  private model: string;
+// 嵌入模型的能力声明，向量存储、分批和分块都以此为准
+export interface EmbeddingProviderInfo {
+  provider: string;        // 提供方标识：dashscope / openai / local
+  model: string;           // 模型名称
+  dimension: number;       // 向量维度
+  batchSize: number;       // 单次请求最多的文本数
+  maxInputLength: number;  // 单条文本最大字符数，超出部分会被截断
+}
 
-  constructor() {
-    super({});
-    this.apiKey = process.env.DASHSCOPE_API_KEY || '';
-    this.model = 'text-embedding-v3'; // 阿里云文本嵌入模型
-  }
+// 各提供方共用的分批、截断和维度校验逻辑
+abstract class ProviderEmbeddings extends Embeddings {
+  abstract readonly info: EmbeddingProviderInfo;
+
+  // 返回配置错误信息，未配置完整时上传等操作应提前拒绝
+  abstract getConfigError(): string | null;
+
+  protected abstract embedBatch(texts: string[]): Promise<number[][]>;
 
   async embedDocuments(documents: string[]): Promise<number[][]> {
-    // DashScope API 限制每批最多 10 个文本
-    const batchSize = 10;
-    const results: number[][] = [];
-    
-    console.log(`[Embeddings] 开始处理 ${documents.length} 个文档，每批 ${batchSize} 个`);
-    
-    for (let i = 0; i < documents.length; i += batchSize) {
-      const batch = documents.slice(i, i + batchSize);
-      const embeddings = await this.callDashScopeEmbedding(batch);
-      results.push(...embeddings);
-      
+    return (await this.embedDocumentsWithStats(documents)).vectors;
+  }
+
+  // 先查嵌入缓存，只把未命中的文本分批发给接口，并返回命中和未命中的数量
+  async embedDocumentsWithStats(documents: string[]): Promise<{ vectors: number[][]; cacheHits: number; cacheMisses: number }> {
+    const { batchSize, maxInputLength } = this.info;
+    // 与 embedTexts 的截断一致，截断后相同的文本共用向量
+    const keys = documents.map(text => embeddingCacheKey(this.info, text.trim().substring(0, maxInputLength)));
+    const vectors = await getCachedEmbeddings(keys);
+    const missing = vectors.flatMap((vector, index) => (vector ? [] : [index]));
+    const cacheHits = documents.length - missing.length;
+
+    console.log(`[Embeddings] 开始处理 ${documents.length} 个文档，缓存命中 ${cacheHits} 个，每批 ${batchSize} 个 (${this.info.provider}/${this.info.model})`);
+
+    for (let i = 0; i < missing.length; i += batchSize) {
+      const batchIndexes = missing.slice(i, i + batchSize);
+      const embeddings = await this.embedTexts(batchIndexes.map(index => documents[index]));
+      batchIndexes.forEach((index, j) => {
+        vectors[index] = embeddings[j];
+      });
+      await cacheEmbeddings(batchIndexes.map((index, j) => [keys[index], embeddings[j]]));
+
       // 显示进度
-      if ((i + batchSize) % 50 === 0 || i + batchSize >= documents.length) {
-        console.log(`[Embeddings] 进度: ${Math.min(i + batchSize, documents.length)}/${documents.length}`);
+      if ((i + batchSize) % 50 === 0 || i + batchSize >= missing.length) {
+        console.log(`[Embeddings] 进度: ${Math.min(i + batchSize, missing.length)}/${missing.length}`);
       }
     }
-    
-    console.log(`[Embeddings] 完成，共生成 ${results.length} 个向量`);
-    return results;
+
+    console.log(`[Embeddings] 完成，共生成 ${missing.length} 个向量`);
+    return { vectors: vectors as number[][], cacheHits, cacheMisses: missing.length };
   }
 
   async embedQuery(query: string): Promise<number[]> {
     console.log(`[Embeddings] 查询嵌入: "${query.substring(0, 50)}..."`);
-    const embeddings = await this.callDashScopeEmbedding([query]);
+    const embeddings = await this.embedTexts([query]);
     return embeddings[0];
   }
 
-  private async callDashScopeEmbedding(texts: string[]): Promise<number[][]> {
-    if (!this.apiKey) {
-      console.error('[Embeddings] DASHSCOPE_API_KEY 未设置！');
-      throw new Error('DASHSCOPE_API_KEY is required for embeddings');
+  private async embedTexts(texts: string[]): Promise<number[][]> {
+    const configError = this.getConfigError();
+    if (configError) {
+      console.error(`[Embeddings] ${configError}`);
+      throw new Error(configError);
     }
 
     // 处理空文本和过长文本
+    const { maxInputLength } = this.info;
     const processedTexts = texts.map(text => {
       const cleaned = text.trim();
-      // DashScope embedding 有长度限制，截断过长的文本
-      return cleaned.length > 2048 ? cleaned.substring(0, 2048) : cleaned;
+      if (cleaned.length > maxInputLength) {
+        console.warn(`[Embeddings] 文本长度 ${cleaned.length} 超过 ${maxInputLength}，已截断`);
+        return cleaned.substring(0, maxInputLength);
+      }
+      return cleaned;
     });
 
-    try {
-      const response = await fetch('https://dashscope.aliyuncs.com/compatible-mode/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: this.model,
-          input: processedTexts,
-        }),
-      });
+    const vectors = await this.embedBatch(processedTexts);
 
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('[Embeddings] API 错误:', error);
-        throw new Error(`DashScope Embedding API error: ${error}`);
-      }
+    if (vectors.length !== texts.length) {
+      throw new Error(`Embedding count mismatch: expected ${texts.length}, got ${vectors.length}`);
+    }
+    const wrongDimension = vectors.find(v => v.length !== this.info.dimension);
+    if (wrongDimension) {
+      throw new Error(
+        `Embedding dimension mismatch for ${this.info.model}: expected ${this.info.dimension}, got ${wrongDimension.length}`,
+      );
+    }
 
-      const data = await response.json();
-      
-      if (!data.data || !Array.isArray(data.data)) {
-        console.error('[Embeddings] 响应格式错误:', data);
-        throw new Error('Invalid API response format');
-      }
+    return vectors;
+  }
+}
+
+// 调用 OpenAI 兼容的 /v1/embeddings 接口
+async function callEmbeddingEndpoint(
+  url: string,
+  apiKey: string,
+  model: string,
+  texts: string[],
+  label: string,
+  dimensions?: number,  // 支持降维的模型可指定输出维度
+): Promise<number[][]> {
+  try {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model, input: texts, ...(dimensions ? { dimensions } : {}) }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('[Embeddings] API 错误:', error);
+      throw new Error(`${label} Embedding API error: ${error}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.data || !Array.isArray(data.data)) {
+      console.error('[Embeddings] 响应格式错误:', data);
+      throw new Error('Invalid API response format');
+    }
+
+    // 按 index 排序，部分兼容实现不保证返回顺序
+    return [...data.data]
+      .sort((a: { index?: number }, b: { index?: number }) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item: { embedding: number[] }) => item.embedding);
+  } catch (error) {
+    console.error('[Embeddings] 调用失败:', error);
+    throw error; // 不再降级，直接抛出错误让用户知道
+  }
+}
+
+// 使用阿里云 DashScope 文本嵌入模型
+export class DashScopeEmbeddings extends ProviderEmbeddings {
+  readonly info: EmbeddingProviderInfo;
+  private apiKey: string;
+  private requestDimensions?: number;
+
+  constructor() {
+    super({});
+    this.apiKey = process.env.DASHSCOPE_API_KEY || '';
+    // text-embedding-v3 默认 1024 维，指定 EMBEDDING_DIMENSION 时通过 dimensions 参数请求对应维度
+    this.requestDimensions = Number(process.env.EMBEDDING_DIMENSION) || undefined;
+    this.info = {
+      provider: 'dashscope',
+      model: process.env.EMBEDDING_MODEL || 'text-embedding-v3', // 阿里云文本嵌入模型
+      dimension: Number(process.env.EMBEDDING_DIMENSION) || 1024,
+      batchSize: 10,       // DashScope API 限制每批最多 10 个文本
+      maxInputLength: 2048,
+    };
+  }
+
+  getConfigError(): string | null {
+    return this.apiKey ? null : 'DASHSCOPE_API_KEY is required for embeddings';
+  }
+
+  protected embedBatch(texts: string[]): Promise<number[][]> {
+    return callEmbeddingEndpoint(
+      `${getDashScopeBaseUrl()}/embeddings`,
+      this.apiKey,
+      this.info.model,
+      texts,
+      'DashScope',
+      this.requestDimensions,
+    );
+  }
+}
+
+// 任意 OpenAI 兼容的嵌入服务，如本地 Ollama (http://localhost:11434/v1) 或 vLLM
+export class OpenAICompatibleEmbeddings extends ProviderEmbeddings {
+  readonly info: EmbeddingProviderInfo;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor() {
+    super({});
+    this.baseUrl = (process.env.EMBEDDING_BASE_URL || '').replace(/\/+$/, '');
+    this.apiKey = process.env.EMBEDDING_API_KEY || '';
+    this.info = {
+      provider: 'openai',
+      model: process.env.EMBEDDING_MODEL || '',
+      dimension: Number(process.env.EMBEDDING_DIMENSION) || 0,
+      batchSize: Number(process.env.EMBEDDING_BATCH_SIZE) || 32,
+      maxInputLength: Number(process.env.EMBEDDING_MAX_INPUT_LENGTH) || 2048,
+    };
+  }
+
+  getConfigError(): string | null {
+    if (!this.baseUrl) return 'EMBEDDING_BASE_URL is required for the openai embedding provider';
+    if (!this.info.model) return 'EMBEDDING_MODEL is required for the openai embedding provider';
+    if (!this.info.dimension) return 'EMBEDDING_DIMENSION is required for the openai embedding provider';
+    return null;
+  }
 
-      return data.data.map((item: { embedding: number[] }) => item.embedding);
-    } catch (error) {
-      console.error('[Embeddings] 调用失败:', error);
-      throw error; // 不再降级，直接抛出错误让用户知道
+  protected embedBatch(texts: string[]): Promise<number[][]> {
+    return callEmbeddingEndpoint(`${this.baseUrl}/embeddings`, this.apiKey, this.info.model, texts, 'OpenAI-compatible');
+  }
+}
+
+// 离线确定性嵌入：对字符 n-gram 做特征哈希，不调用任何接口，供开发和测试使用
+export class LocalHashEmbeddings extends ProviderEmbeddings {
+  readonly info: EmbeddingProviderInfo;
+
+  constructor() {
+    super({});
+    this.info = {
+      provider: 'local',
+      model: 'local-hash',
+      dimension: Number(process.env.EMBEDDING_DIMENSION) || 256,
+      batchSize: 64,
+      maxInputLength: 8192,
+    };
+  }
+
+  getConfigError(): string | null {
+    return null;
+  }
+
+  protected async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.hashText(text));
+  }
+
+  private hashText(text: string): number[] {
+    const vector = new Array(this.info.dimension).fill(0);
+    const chars = Array.from(text.toLowerCase().replace(/\s+/g, ' '));
+
+    // 单字 + 双字组合，兼顾中文（无空格分词）和英文
+    for (let i = 0; i < chars.length; i++) {
+      const grams = i + 1 < chars.length ? [chars[i], chars[i] + chars[i + 1]] : [chars[i]];
+      for (const gram of grams) {
+        const hash = fnv1a(gram);
+        const sign = (hash & 1) === 0 ? 1 : -1;
+        vector[(hash >>> 1) % this.info.dimension] += sign;
+      }
     }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map(v => v / norm);
   }
 }
 
-export function getEmbeddings() {
+// 32 位 FNV-1a 哈希
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export type EmbeddingProvider = DashScopeEmbeddings | OpenAICompatibleEmbeddings | LocalHashEmbeddings;
+
+// 通过 EMBEDDING_PROVIDER 选择嵌入提供方：dashscope（默认）/ openai / local
+export function getEmbeddings(): EmbeddingProvider {
+  const provider = (process.env.EMBEDDING_PROVIDER || 'dashscope').toLowerCase();
+  if (provider === 'openai') return new OpenAICompatibleEmbeddings();
+  if (provider === 'local') return new LocalHashEmbeddings();
   return new DashScopeEmbeddings();
 }
@@ -0,0 +1,153 @@
+import { Document } from '@langchain/core/documents';
+import { getVectorStore, getKeywordIndex, getStoredChunks, getDocumentMetas, DocumentMeta, RetrievalMode } from './vector-store';
+import { getEmbeddings } from './embeddings';
+
+export interface SearchHit {
+  doc: Document;
+  vectorScore?: number;  // 与问题的余弦相似度，仅关键词检索时没有
+  vectorRank?: number;   // 在向量检索结果中的名次（从 1 开始）
+  keywordRank?: number;  // 在关键词检索结果中的名次（从 1 开始）
+  fusedScore: number;    // 融合后的排序分数
+}
+
+// 检索范围：各条件之间为“且”，未提供的条件不限制
+export interface RetrievalFilter {
+  docIds?: string[];
+  fileTypes?: string[];
+  uploadedAfter?: string;   // ISO 时间，含
+  uploadedBefore?: string;  // ISO 时间，含；只有日期时包含当天全天
+}
+
+export interface SearchOptions {
+  k: number;
+  mode: RetrievalMode;
+  hybridAlpha: number;
+  filter?: RetrievalFilter;
+  visible?: (meta: DocumentMeta) => boolean; // 调用方可见的文档，不可见文档的片段不参与检索
+  collectionId?: string;
+  queryVector?: number[];   // 已经算好的问题向量（查找答案缓存时），避免重复调用嵌入接口
+}
+
+// 只有日期（如 "2024-05-01"）时按服务器本地时区解析（new Date 会把它当作 UTC 零点）；
+// 作为结束时间时取当天结束，当天晚些时候上传的文档也在范围内
+function parseFilterDate(value: string, endOfDay: boolean): number {
+  const date = value.trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return new Date(date).getTime();
+  return new Date(`${date}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime();
+}
+
+// 把过滤条件和可见范围解析为允许的文档 ID 集合，没有任何限制时返回 null
+async function resolveAllowedDocIds(
+  collectionId?: string,
+  filter: RetrievalFilter = {},
+  visible?: (meta: DocumentMeta) => boolean,
+): Promise<Set<string> | null> {
+  const { docIds, fileTypes, uploadedAfter, uploadedBefore } = filter;
+  if (!visible && !docIds?.length && !fileTypes?.length && !uploadedAfter && !uploadedBefore) return null;
+
+  const after = uploadedAfter ? parseFilterDate(uploadedAfter, false) : -Infinity;
+  const before = uploadedBefore ? parseFilterDate(uploadedBefore, true) : Infinity;
+  const metas = await getDocumentMetas(collectionId);
+
+  return new Set(metas
+    .filter(meta => !visible || visible(meta))
+    .filter(meta => !docIds?.length || docIds.includes(meta.id))
+    .filter(meta => !fileTypes?.length || fileTypes.includes(meta.fileType))
+    .filter(meta => {
+      const time = new Date(meta.uploadTime).getTime();
+      return time >= after && time <= before;
+    })
+    .map(meta => meta.id));
+}
+
+// RRF 常数，抑制头部名次的权重差距
+const RRF_K = 60;
+
+// 融合前每一路多取一些候选，避免只出现在一路中的好结果被截掉
+function candidateCount(k: number) {
+  return Math.max(k * 2, 20);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// 向量 / 关键词 / 混合检索，混合模式下用加权 RRF 融合两路名次
+export async function hybridSearch(query: string, options: SearchOptions): Promise<SearchHit[]> {
+  const { k, mode, collectionId } = options;
+  const alpha = Math.min(1, Math.max(0, options.hybridAlpha));
+  const useVector = mode !== 'keyword';
+  const useKeyword = mode !== 'vector';
+  const hits = new Map<string, SearchHit>();
+
+  // 知识库为空或过滤后没有文档时无需调用嵌入接口
+  const storedChunks = await getStoredChunks(collectionId);
+  const allowedDocIds = await resolveAllowedDocIds(collectionId, options.filter, options.visible);
+  if (storedChunks.length === 0 || allowedDocIds?.size === 0) {
+    return [];
+  }
+  const docFilter = allowedDocIds
+    ? (doc: Document) => allowedDocIds.has(doc.metadata.docId)
+    : undefined;
+
+  // 问题只嵌入一次，既用于向量检索，也用于给关键词命中的片段补算相似度
+  const queryVector = useVector ? options.queryVector ?? await getEmbeddings().embedQuery(query) : null;
+
+  if (queryVector) {
+    const vectorStore = await getVectorStore(collectionId);
+    const results = await vectorStore.similaritySearchVectorWithScore(queryVector, useKeyword ? candidateCount(k) : k, docFilter);
+    results.forEach(([doc, score], i) => {
+      const weight = useKeyword ? alpha : 1;
+      hits.set(doc.metadata.chunkId, {
+        doc,
+        vectorScore: score,
+        vectorRank: i + 1,
+        fusedScore: weight / (RRF_K + i + 1),
+      });
+    });
+  }
+
+  if (useKeyword) {
+    const keywordIndex = await getKeywordIndex(collectionId);
+    const chunksById = new Map(storedChunks.map(c => [c.doc.metadata.chunkId as string, c]));
+    const accept = docFilter
+      ? (chunkId: string) => {
+        const chunk = chunksById.get(chunkId);
+        return !!chunk && docFilter(chunk.doc);
+      }
+      : undefined;
+    const keywordHits = keywordIndex.search(query, useVector ? candidateCount(k) : k, accept);
+
+    keywordHits.forEach(({ chunkId }, i) => {
+      const chunk = chunksById.get(chunkId);
+      if (!chunk) return;
+
+      const weight = useVector ? 1 - alpha : 1;
+      const contribution = weight / (RRF_K + i + 1);
+      const existing = hits.get(chunkId);
+      if (existing) {
+        existing.keywordRank = i + 1;
+        existing.fusedScore += contribution;
+      } else {
+        hits.set(chunkId, {
+          doc: chunk.doc,
+          vectorScore: queryVector ? cosineSimilarity(queryVector, chunk.vector) : undefined,
+          keywordRank: i + 1,
+          fusedScore: contribution,
+        });
+      }
+    });
+  }
+
+  return Array.from(hits.values())
+    .sort((a, b) => b.fusedScore - a.fusedScore)
+    .slice(0, k);
+}
@@ -0,0 +1,157 @@
+import type { DocumentMeta } from './vector-store';
+
+// 后台入库任务：上传请求立即返回任务 ID，解析、分块和向量化在队列中依次执行
+
+export type IngestJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type IngestStage = 'parsing' | 'splitting' | 'embedding' | 'saving';
+
+export interface IngestJob {
+  id: string;
+  collectionId: string;
+  filename: string;
+  status: IngestJobStatus;
+  stage?: IngestStage;     // 运行中的阶段
+  chunksDone: number;      // 已向量化的片段数
+  chunksTotal: number;     // 分块后的片段总数，分块完成前为 0
+  message?: string;        // 完成时的提示
+  error?: string;          // 失败原因
+  document?: DocumentMeta; // 入库成功后的文档
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 任务执行时可用的进度回调和取消信号
+export interface IngestContext {
+  signal: AbortSignal;
+  setStage(stage: IngestStage): void;
+  setProgress(done: number, total: number): void;
+}
+
+export interface IngestTaskResult {
+  message: string;
+  document?: DocumentMeta;
+}
+
+export type IngestTask = (ctx: IngestContext) => Promise<IngestTaskResult>;
+
+interface JobEntry {
+  job: IngestJob;
+  controller: AbortController;
+}
+
+// 已结束的任务保留一段时间供前端查询
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+declare global {
+  var ingestJobs: Map<string, JobEntry> | undefined;
+  var ingestQueue: Promise<void> | undefined;
+}
+
+function getJobs(): Map<string, JobEntry> {
+  if (!global.ingestJobs) {
+    global.ingestJobs = new Map();
+  }
+  return global.ingestJobs;
+}
+
+function updateJob(job: IngestJob, updates: Partial<IngestJob>) {
+  Object.assign(job, updates, { updatedAt: new Date().toISOString() });
+}
+
+function isFinished(job: IngestJob) {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+function pruneFinishedJobs() {
+  const now = Date.now();
+  getJobs().forEach(({ job }, id) => {
+    if (isFinished(job) && now - new Date(job.updatedAt).getTime() > FINISHED_JOB_TTL_MS) {
+      getJobs().delete(id);
+    }
+  });
+}
+
+async function runJob(entry: JobEntry, task: IngestTask) {
+  const { job, controller } = entry;
+  // 排队期间已被取消
+  if (job.status === 'cancelled') return;
+
+  updateJob(job, { status: 'running' });
+  console.log(`[IngestJob] 开始处理 ${job.filename} (${job.id})`);
+
+  try {
+    const result = await task({
+      signal: controller.signal,
+      setStage: stage => updateJob(job, { stage }),
+      setProgress: (done, total) => updateJob(job, { chunksDone: done, chunksTotal: total }),
+    });
+    updateJob(job, { status: 'completed', stage: undefined, message: result.message, document: result.document });
+    console.log(`[IngestJob] ${job.filename} 处理完成`);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      updateJob(job, { status: 'cancelled', stage: undefined });
+      console.log(`[IngestJob] ${job.filename} 已取消`);
+    } else {
+      updateJob(job, { status: 'failed', error: error instanceof Error ? error.message : '未知错误' });
+      console.error(`[IngestJob] ${job.filename} 失败:`, error);
+    }
+  }
+}
+
+// 加入队列，任务按提交顺序逐个执行，避免多个大文件同时占用嵌入接口
+export function enqueueIngestJob(collectionId: string, filename: string, task: IngestTask): IngestJob {
+  pruneFinishedJobs();
+
+  const now = new Date().toISOString();
+  const job: IngestJob = {
+    id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    collectionId,
+    filename,
+    status: 'queued',
+    chunksDone: 0,
+    chunksTotal: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const entry: JobEntry = { job, controller: new AbortController() };
+  getJobs().set(job.id, entry);
+
+  const previous = global.ingestQueue || Promise.resolve();
+  global.ingestQueue = previous.then(() => runJob(entry, task));
+  return job;
+}
+
+// 在当前队列中的任务全部结束后执行，如多文件上传结束后统一保存知识库
+export function runAfterIngestJobs(callback: () => Promise<void>) {
+  const previous = global.ingestQueue || Promise.resolve();
+  global.ingestQueue = previous
+    .then(callback)
+    .catch(error => console.error('[IngestJob] 队列回调失败:', error));
+}
+
+export function getIngestJob(jobId: string): IngestJob | undefined {
+  return getJobs().get(jobId)?.job;
+}
+
+// 按创建时间倒序列出任务
+export function listIngestJobs(collectionId?: string): IngestJob[] {
+  return Array.from(getJobs().values())
+    .map(entry => entry.job)
+    .filter(job => !collectionId || job.collectionId === collectionId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// 取消任务：排队中的直接标记取消，运行中的在下一批向量化前停止；入库是一次性提交的，取消后不会留下部分片段
+export function cancelIngestJob(jobId: string): IngestJob | undefined {
+  const entry = getJobs().get(jobId);
+  if (!entry) return undefined;
+
+  const { job, controller } = entry;
+  if (!isFinished(job)) {
+    controller.abort();
+    if (job.status === 'queued') {
+      updateJob(job, { status: 'cancelled' });
+    }
+  }
+  return job;
+}
@@ -0,0 +1,89 @@
+import { Document } from '@langchain/core/documents';
+import { findLoader, getSupportedExtensions, getFileExtension, splitByCharacters } from './loaders';
+import { addDocumentsToStore, getRagConfig, AddDocumentResult, DocumentAccess } from './vector-store';
+import type { IngestStage } from './ingest-jobs';
+
+// 上传和重建索引共用的入库流程：查找加载器 → 解析 → 清理 → 分块 → 向量化入库
+
+export interface IngestFile {
+  filename: string;
+  path?: string;     // 含文件夹的相对路径
+  mimeType?: string;
+  buffer: Buffer;
+}
+
+export interface IngestOptions {
+  collectionId: string;
+  contentHash?: string;
+  access?: DocumentAccess;
+  onStage?: (stage: IngestStage) => void;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface IngestResult extends AddDocumentResult {
+  chunkCount: number;
+}
+
+// 移除多余空白（保留换行符用于分割）
+function cleanContent(text: string): string {
+  return text.trim().replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n');
+}
+
+export async function ingestFile(file: IngestFile, options: IngestOptions): Promise<IngestResult> {
+  const { filename, path, mimeType, buffer } = file;
+  const { collectionId, contentHash, access, onStage, onProgress, signal } = options;
+
+  const loader = findLoader(filename, mimeType);
+  if (!loader) {
+    throw new Error(`不支持的文件类型: .${getFileExtension(filename)}。支持的格式: ${getSupportedExtensions().join(', ')}`);
+  }
+  const { fileType } = loader;
+
+  onStage?.('parsing');
+  let parsed: Document[];
+  try {
+    parsed = await loader.parse(buffer);
+  } catch (err) {
+    console.error(`[Ingest] ${filename} 解析失败:`, err);
+    throw new Error(loader.parseErrorMessage);
+  }
+
+  const docs = parsed
+    .map(doc => new Document({
+      pageContent: cleanContent(doc.pageContent),
+      metadata: { ...doc.metadata, source: filename, fileType, ...(path ? { path } : {}) },
+    }))
+    .filter(doc => doc.pageContent.length > 0);
+  const contentLength = docs.reduce((sum, doc) => sum + doc.pageContent.length, 0);
+  if (contentLength < 10) {
+    throw new Error(`${fileType} 内容为空或无法提取文字。请检查文件是否正确。`);
+  }
+  console.log(`[Ingest] ${fileType} 解析完成，清理后内容长度: ${contentLength} 字符`);
+
+  signal?.throwIfAborted();
+  onStage?.('splitting');
+  const config = await getRagConfig(collectionId);
+  console.log(`[Ingest] 使用分块配置: chunkSize=${config.chunkSize}, chunkOverlap=${config.chunkOverlap}`);
+
+  const split = loader.split || splitByCharacters;
+  let splitDocs = await split(docs, config);
+  // 如果分割结果为空，但内容存在，直接使用原文档
+  if (splitDocs.length === 0) {
+    splitDocs = docs;
+  }
+  console.log(`[Ingest] 文档分割完成，共 ${splitDocs.length} 个片段`);
+
+  onStage?.('embedding');
+  const result = await addDocumentsToStore(splitDocs, filename, {
+    fileType,
+    path,
+    mimeType,
+    collectionId,
+    contentHash,
+    access,
+    onProgress,
+    signal,
+  });
+  return { ...result, chunkCount: splitDocs.length };
+}
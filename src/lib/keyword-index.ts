@@ -0,0 +1,161 @@
+// BM25 关键词索引：补足向量检索对产品编号、合同号、人名等精确词的召回
+
+// 常见虚词，不参与打分
+const STOP_WORDS = new Set([
+  '的', '了', '和', '是', '在', '与', '及', '或', '也', '就', '都', '而', '把', '被', '让', '对',
+  '这', '那', '之', '其', '中', '为', '以', '于', '上', '下', '吗', '呢', '吧', '啊', '么',
+  '什么', '怎么', '如何', '哪些', '哪个', '多少', '是否', '可以', '一个', '我们', '你们', '他们',
+  'the', 'a', 'an', 'of', 'to', 'and', 'or', 'in', 'on', 'for', 'is', 'are', 'was', 'be', 'with',
+]);
+
+// 编号类词（如 HT-2024-001、SKU_A12、v2.3.1），分词器会把它们拆开，这里整体保留一份
+const CODE_PATTERN = /[a-z0-9]+(?:[-_./][a-z0-9]+)+/g;
+
+const CJK_PATTERN = /[\u3400-\u9fff]/;
+
+let segmenter: Intl.Segmenter | null | undefined;
+
+function getSegmenter(): Intl.Segmenter | null {
+  if (segmenter === undefined) {
+    segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+      ? new Intl.Segmenter('zh', { granularity: 'word' })
+      : null;
+  }
+  return segmenter;
+}
+
+// 没有 Intl.Segmenter 时退化为中文双字切分 + 英文按空白切分
+function fallbackSegments(text: string): string[] {
+  const tokens: string[] = [];
+  for (const part of text.split(/[^\p{L}\p{N}]+/u)) {
+    if (!part) continue;
+    if (CJK_PATTERN.test(part)) {
+      const chars = Array.from(part);
+      if (chars.length === 1) tokens.push(part);
+      for (let i = 0; i + 1 < chars.length; i++) tokens.push(chars[i] + chars[i + 1]);
+    } else {
+      tokens.push(part);
+    }
+  }
+  return tokens;
+}
+
+// 中英文混合分词
+export function tokenize(text: string): string[] {
+  const normalized = text.toLowerCase();
+  const seg = getSegmenter();
+  const words = seg
+    ? Array.from(seg.segment(normalized)).filter(s => s.isWordLike).map(s => s.segment)
+    : fallbackSegments(normalized);
+
+  const tokens = words.filter(w => !STOP_WORDS.has(w));
+  for (const code of normalized.match(CODE_PATTERN) || []) {
+    tokens.push(code);
+  }
+  return tokens;
+}
+
+export interface KeywordHit {
+  chunkId: string;
+  score: number;
+}
+
+export class KeywordIndex {
+  private static readonly K1 = 1.2;
+  private static readonly B = 0.75;
+
+  // 词 → (片段 → 词频)
+  private postings = new Map<string, Map<string, number>>();
+  // 片段 → (词 → 词频)，删除时据此清理倒排表
+  private chunkTerms = new Map<string, Map<string, number>>();
+  private chunkLengths = new Map<string, number>();
+  private docChunks = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.chunkTerms.size;
+  }
+
+  add(chunkId: string, docId: string, text: string) {
+    if (this.chunkTerms.has(chunkId)) {
+      this.removeChunk(chunkId);
+    }
+
+    const tokens = tokenize(text);
+    const termFreqs = new Map<string, number>();
+    for (const token of tokens) {
+      termFreqs.set(token, (termFreqs.get(token) || 0) + 1);
+    }
+
+    termFreqs.forEach((tf, term) => {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(chunkId, tf);
+    });
+
+    this.chunkTerms.set(chunkId, termFreqs);
+    this.chunkLengths.set(chunkId, tokens.length);
+    this.totalLength += tokens.length;
+
+    let chunks = this.docChunks.get(docId);
+    if (!chunks) {
+      chunks = new Set();
+      this.docChunks.set(docId, chunks);
+    }
+    chunks.add(chunkId);
+  }
+
+  removeDocument(docId: string) {
+    const chunks = this.docChunks.get(docId);
+    if (!chunks) return;
+    chunks.forEach(chunkId => this.removeChunk(chunkId));
+    this.docChunks.delete(docId);
+  }
+
+  private removeChunk(chunkId: string) {
+    const termFreqs = this.chunkTerms.get(chunkId);
+    if (!termFreqs) return;
+
+    termFreqs.forEach((_, term) => {
+      const posting = this.postings.get(term);
+      posting?.delete(chunkId);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+
+    this.totalLength -= this.chunkLengths.get(chunkId) || 0;
+    this.chunkTerms.delete(chunkId);
+    this.chunkLengths.delete(chunkId);
+  }
+
+  // accept 用于按元数据过滤，在截取前 k 个之前生效
+  search(query: string, k: number, accept?: (chunkId: string) => boolean): KeywordHit[] {
+    const chunkCount = this.chunkTerms.size;
+    if (chunkCount === 0) return [];
+
+    const avgLength = this.totalLength / chunkCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (chunkCount - posting.size + 0.5) / (posting.size + 0.5));
+      posting.forEach((tf, chunkId) => {
+        if (accept && !accept(chunkId)) return;
+        const length = this.chunkLengths.get(chunkId) || 0;
+        const norm = tf + KeywordIndex.K1 * (1 - KeywordIndex.B + KeywordIndex.B * length / avgLength);
+        scores.set(chunkId, (scores.get(chunkId) || 0) + idf * (tf * (KeywordIndex.K1 + 1)) / norm);
+      });
+    }
+
+    return Array.from(scores.entries())
+      .map(([chunkId, score]) => ({ chunkId, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
@@ -1,157 +1,447 @@
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
-import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages';
+import { AIMessage, AIMessageChunk, BaseMessage, UsageMetadata } from '@langchain/core/messages';
+import { ChatGenerationChunk } from '@langchain/core/outputs';
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
 
-// 自定义 Qwen 聊天模型（通过 DashScope API）
-class ChatQwen extends BaseChatModel {
+// 模型的特殊行为，由提供方根据模型名给出
+export interface ModelQuirks {
+  streamOnly?: boolean;       // 只支持流式调用（如 glm-4.5、deepseek-r1）
+  disableThinking?: boolean;  // 需要 enable_thinking=false（Qwen3 系列）
+  minTemperature?: number;    // temperature 下限
+}
+
+// 下拉框中的模型选项
+export interface ModelOption {
+  value: string;
+  label: string;
+  provider: string;
+}
+
+// 聊天模型提供方
+interface ChatProvider {
+  id: string;
+  label: string;
+  // 模型值前缀，DashScope 为空以兼容已保存的配置（如 "qwen-max"）
+  modelPrefix: string;
+  isConfigured(): boolean;
+  models(): { model: string; label: string }[];
+  create(model: string, temperature: number): BaseChatModel;
+}
+
+// 大模型调用消耗的 token，优先使用接口返回的用量，接口没有返回时按提示词和输出估算
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export const NO_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+// 粗略估算 token 数：中日韩字符按 1 个 token，其余按 4 个字符 1 个 token
+export function estimateTokens(text: string): number {
+  const cjkCount = (text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
+
+// 接口返回了用量时，AIMessage / AIMessageChunk 上带有 usage_metadata
+export function getUsageMetadata(message: BaseMessage): UsageMetadata | undefined {
+  return message instanceof AIMessage || message instanceof AIMessageChunk ? message.usage_metadata : undefined;
+}
+
+export function getTokenUsage(usage: UsageMetadata | undefined, prompt: string, output: string): TokenUsage {
+  if (usage) {
+    return { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens, totalTokens: usage.total_tokens };
+  }
+  const promptTokens = estimateTokens(prompt);
+  const completionTokens = estimateTokens(output);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+export function addUsage(...usages: TokenUsage[]): TokenUsage {
+  return usages.reduce((sum, u) => ({
+    promptTokens: sum.promptTokens + u.promptTokens,
+    completionTokens: sum.completionTokens + u.completionTokens,
+    totalTokens: sum.totalTokens + u.totalTokens,
+  }), NO_USAGE);
+}
+
+// 流式响应中的一段：增量文本，或最后一段中接口返回的 token 用量
+type StreamPart = { content: string } | { usage: UsageMetadata };
+
+// 把接口返回的 usage 转为 LangChain 的 usage_metadata，未返回时为 undefined
+function toUsageMetadata(usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | undefined): UsageMetadata | undefined {
+  if (!usage || typeof usage.prompt_tokens !== 'number' || typeof usage.completion_tokens !== 'number') return undefined;
+  return {
+    input_tokens: usage.prompt_tokens,
+    output_tokens: usage.completion_tokens,
+    total_tokens: usage.total_tokens ?? usage.prompt_tokens + usage.completion_tokens,
+  };
+}
+
+// 通用的 OpenAI 兼容聊天模型（DashScope 兼容模式、vLLM、Ollama 等）
+class ChatOpenAICompatible extends BaseChatModel {
+  private providerId: string;
+  private baseUrl: string;
   private apiKey: string;
   private model: string;
   private temperature: number;
+  private quirks: ModelQuirks;
 
-  constructor(config: { apiKey: string; model?: string; temperature?: number }) {
+  constructor(config: {
+    providerId: string;
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    temperature?: number;
+    quirks?: ModelQuirks;
+  }) {
     super({});
-    this.apiKey = config.apiKey;
-    this.model = config.model || 'qwen-max';
+    this.providerId = config.providerId;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey || '';
+    this.model = config.model;
     this.temperature = config.temperature ?? 0.3;
+    this.quirks = config.quirks || {};
   }
 
   _llmType(): string {
-    return 'qwen';
+    return this.providerId;
   }
 
-  // 需要流式模式的模型列表
-  private readonly STREAM_ONLY_MODELS = ['glm-4.5', 'glm-4.6', 'deepseek-r1'];
-
-  async _generate(messages: BaseMessage[]): Promise<{ generations: { text: string; message: AIMessage }[] }> {
+  // 构造请求体（Qwen3 参数、温度等）
+  private buildRequestBody(messages: BaseMessage[], stream: boolean): Record<string, unknown> {
     const formattedMessages = messages.map(msg => ({
       role: msg._getType() === 'human' ? 'user' : msg._getType() === 'ai' ? 'assistant' : 'system',
       content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content),
     }));
 
-    // Qwen3 系列模型需要特殊参数
-    const isQwen3 = this.model.startsWith('qwen3');
-    // 检查是否需要流式模式
-    const needsStream = this.STREAM_ONLY_MODELS.includes(this.model);
-    
     const requestBody: Record<string, unknown> = {
       model: this.model,
       messages: formattedMessages,
+      temperature: Math.max(this.quirks.minTemperature ?? 0, this.temperature),
     };
 
     // Qwen3 模型：关闭思考模式时需要设置 enable_thinking=false
-    // 同时 temperature 必须大于 0
-    if (isQwen3) {
+    if (this.quirks.disableThinking) {
       requestBody.extra_body = { enable_thinking: false };
-      // Qwen3 的 temperature 范围是 0-2，但关闭思考时需要 > 0
-      requestBody.temperature = Math.max(0.1, this.temperature);
-    } else {
-      requestBody.temperature = this.temperature;
     }
 
-    // 某些模型只支持流式模式
-    if (needsStream) {
+    if (stream) {
       requestBody.stream = true;
+      // 请求在最后一段返回 token 用量
+      requestBody.stream_options = { include_usage: true };
     }
 
-    console.log(`[LLM] 调用模型: ${this.model}, temperature: ${requestBody.temperature}, stream: ${needsStream}`);
+    console.log(`[LLM] 调用模型: ${this.providerId}/${this.model}, temperature: ${requestBody.temperature}, stream: ${stream}`);
+    return requestBody;
+  }
+
+  private async requestCompletion(messages: BaseMessage[], stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
 
-    const response = await fetch('https://dashscope.aliyuncs.com/compatible-mode/v1/chat/completions', {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify(requestBody),
+      headers,
+      body: JSON.stringify(this.buildRequestBody(messages, stream)),
     });
 
     if (!response.ok) {
       const error = await response.text();
-      console.error(`[LLM] API 错误 (${this.model}):`, error);
-      throw new Error(`DashScope API error: ${error}`);
+      console.error(`[LLM] API 错误 (${this.providerId}/${this.model}):`, error);
+      throw new Error(`${this.providerId} API error: ${error}`);
     }
 
-    let content = '';
+    return response;
+  }
 
-    if (needsStream) {
-      // 流式响应处理
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      
-      if (!reader) {
-        throw new Error('无法读取流式响应');
-      }
+  // 解析 SSE 流式响应，逐个产出增量文本和 token 用量
+  private async *readStreamDeltas(response: Response): AsyncGenerator<StreamPart> {
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+
+    if (!reader) {
+      throw new Error('无法读取流式响应');
+    }
+
+    // 网络分包可能把一行拆成两半，未完整的行留到下一次处理
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue;
+        const data = line.slice(6).trim();
+        if (data === '[DONE]') continue;
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n').filter(line => line.trim() !== '');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-            
-            try {
-              const json = JSON.parse(data);
-              const delta = json.choices?.[0]?.delta?.content;
-              if (delta) {
-                content += delta;
-              }
-            } catch {
-              // 忽略解析错误
-            }
+        try {
+          const json = JSON.parse(data);
+          const delta = json.choices?.[0]?.delta?.content;
+          if (delta) {
+            yield { content: delta };
           }
+          const usage = toUsageMetadata(json.usage);
+          if (usage) {
+            yield { usage };
+          }
+        } catch {
+          // 忽略解析错误
+        }
+      }
+    }
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<{ generations: { text: string; message: AIMessage }[] }> {
+    // 某些模型只支持流式模式
+    const needsStream = !!this.quirks.streamOnly;
+    const response = await this.requestCompletion(messages, needsStream);
+
+    let content = '';
+    let usage: UsageMetadata | undefined;
+
+    if (needsStream) {
+      for await (const part of this.readStreamDeltas(response)) {
+        if ('usage' in part) {
+          usage = part.usage;
+        } else {
+          content += part.content;
         }
       }
     } else {
       // 非流式响应处理
       const data = await response.json();
-      
+
       // Qwen3 可能返回 reasoning_content（思考过程）和 content（最终答案）
       const choice = data.choices?.[0]?.message;
       if (choice) {
         // 优先使用 content，如果没有则使用 reasoning_content
         content = choice.content || choice.reasoning_content || '';
       }
+      usage = toUsageMetadata(data.usage);
     }
-    
+
     console.log(`[LLM] 响应长度: ${content.length} 字符`);
 
     return {
-      generations: [{ text: content, message: new AIMessage(content) }],
+      generations: [{ text: content, message: new AIMessage({ content, usage_metadata: usage }) }],
     };
   }
+
+  // 支持 model.stream()：所有模型都以流式方式请求，逐段返回
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const response = await this.requestCompletion(messages, true);
+
+    for await (const part of this.readStreamDeltas(response)) {
+      if ('usage' in part) {
+        yield new ChatGenerationChunk({ text: '', message: new AIMessageChunk({ content: '', usage_metadata: part.usage }) });
+        continue;
+      }
+      yield new ChatGenerationChunk({ text: part.content, message: new AIMessageChunk(part.content) });
+      await runManager?.handleLLMNewToken(part.content);
+    }
+  }
+}
+
+// 离线模拟模型：按脚本依次返回预设回答，没有脚本时基于提示词中的第一个片段生成回答
+class ChatMock extends BaseChatModel {
+  private static callCount = 0;
+  private script: string[];
+
+  constructor(script: string[]) {
+    super({});
+    this.script = script;
+  }
+
+  _llmType(): string {
+    return 'mock';
+  }
+
+  private respond(messages: BaseMessage[]): string {
+    if (this.script.length > 0) {
+      return this.script[ChatMock.callCount++ % this.script.length];
+    }
+
+    const prompt = messages.map(msg => (typeof msg.content === 'string' ? msg.content : '')).join('\n');
+    const firstChunk = prompt.match(/【片段1】(?:（.*）)?\n([\s\S]*?)(?:\n\n---\n\n|\n\n##|$)/)?.[1]?.trim();
+    if (!firstChunk) {
+      // 非问答类调用（如问题改写）原样返回最后一行问题
+      return prompt.split('\n').map(line => line.trim()).filter(Boolean).slice(-2, -1)[0] || '';
+    }
+    return `（模拟回答）根据资料：${firstChunk.substring(0, 200)}\n---SUGGESTED_QUESTIONS---\n1. 还有哪些相关内容？\n2. 能详细说明一下吗？\n3. 有什么注意事项？`;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<{ generations: { text: string; message: AIMessage }[] }> {
+    const content = this.respond(messages);
+    return { generations: [{ text: content, message: new AIMessage(content) }] };
+  }
+
+  async *_streamResponseChunks(messages: BaseMessage[]): AsyncGenerator<ChatGenerationChunk> {
+    const content = this.respond(messages);
+    for (let i = 0; i < content.length; i += 4) {
+      const delta = content.slice(i, i + 4);
+      yield new ChatGenerationChunk({ text: delta, message: new AIMessageChunk(delta) });
+    }
+  }
 }
 
-export function createQwenChatModel(model?: string, temperature?: number) {
-  const apiKey = process.env.DASHSCOPE_API_KEY;
-  if (!apiKey) throw new Error('DASHSCOPE_API_KEY is required');
+// 解析逗号分隔的模型列表，如 "llama3.1,qwen2.5:7b"
+function parseModelList(value: string | undefined): { model: string; label: string }[] {
+  return (value || '')
+    .split(',')
+    .map(m => m.trim())
+    .filter(Boolean)
+    .map(model => ({ model, label: model }));
+}
 
-  return new ChatQwen({
-    model: model || process.env.MODEL_NAME || 'qwen-max',
-    apiKey,
-    temperature: temperature ?? 0.3,
-  });
+// DashScope 兼容 OpenAI 模式的接口地址，聊天和嵌入共用，可通过 DASHSCOPE_BASE_URL 修改（如国际站）
+export function getDashScopeBaseUrl(): string {
+  return (process.env.DASHSCOPE_BASE_URL || 'https://dashscope.aliyuncs.com/compatible-mode/v1').replace(/\/+$/, '');
+}
+
+// 阿里云 DashScope（兼容 OpenAI 模式）
+const dashscopeProvider: ChatProvider = {
+  id: 'dashscope',
+  label: '阿里云百炼',
+  modelPrefix: '',
+  isConfigured: () => !!process.env.DASHSCOPE_API_KEY,
+  models: () => [
+    { model: 'deepseek-r1', label: 'DeepSeek R1' },
+    { model: 'deepseek-v3', label: 'DeepSeek V3' },
+    { model: 'qwen3-max', label: 'Qwen3 Max (优秀)' },
+    { model: 'qwen-max', label: 'Qwen Max (推荐)' },
+    { model: 'qwen-plus', label: 'Qwen Plus (便宜)' },
+    { model: 'qwen-turbo', label: 'Qwen Turbo (快速)' },
+    { model: 'qwen-long', label: 'Qwen Long (长文本)' },
+    { model: 'glm-4.6', label: 'GLM 4.6' },
+    { model: 'glm-4.5', label: 'GLM 4.5' },
+    { model: 'kimi-k2-thinking', label: 'Kimi K2 Thinking' },
+    { model: 'Moonshot-Kimi-K2-Instruct', label: 'Kimi K2 Instruct' },
+  ],
+  create: (model, temperature) => {
+    const apiKey = process.env.DASHSCOPE_API_KEY;
+    if (!apiKey) throw new Error('DASHSCOPE_API_KEY is required');
+
+    const isQwen3 = model.startsWith('qwen3');
+    return new ChatOpenAICompatible({
+      providerId: 'dashscope',
+      baseUrl: getDashScopeBaseUrl(),
+      apiKey,
+      model,
+      temperature,
+      quirks: {
+        streamOnly: ['glm-4.5', 'glm-4.6', 'deepseek-r1'].includes(model),
+        // Qwen3 的 temperature 范围是 0-2，但关闭思考时需要 > 0
+        disableThinking: isQwen3,
+        minTemperature: isQwen3 ? 0.1 : undefined,
+      },
+    });
+  },
+};
+
+// 任意 OpenAI 兼容接口（OpenAI、vLLM、LM Studio 等）
+const openaiProvider: ChatProvider = {
+  id: 'openai',
+  label: 'OpenAI 兼容接口',
+  modelPrefix: 'openai:',
+  isConfigured: () => !!process.env.OPENAI_BASE_URL && parseModelList(process.env.OPENAI_MODELS).length > 0,
+  models: () => parseModelList(process.env.OPENAI_MODELS),
+  create: (model, temperature) => {
+    const baseUrl = process.env.OPENAI_BASE_URL;
+    if (!baseUrl) throw new Error('OPENAI_BASE_URL is required');
+    return new ChatOpenAICompatible({
+      providerId: 'openai',
+      baseUrl,
+      apiKey: process.env.OPENAI_API_KEY,
+      model,
+      temperature,
+    });
+  },
+};
+
+// 本地 Ollama（使用其 OpenAI 兼容的 /v1 接口）
+const ollamaProvider: ChatProvider = {
+  id: 'ollama',
+  label: 'Ollama',
+  modelPrefix: 'ollama:',
+  isConfigured: () => parseModelList(process.env.OLLAMA_MODELS).length > 0,
+  models: () => parseModelList(process.env.OLLAMA_MODELS),
+  create: (model, temperature) => new ChatOpenAICompatible({
+    providerId: 'ollama',
+    baseUrl: `${(process.env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/+$/, '')}/v1`,
+    model,
+    temperature,
+  }),
+};
+
+// 离线模拟，MOCK_LLM_RESPONSES 为 JSON 字符串数组时按顺序循环返回
+const mockProvider: ChatProvider = {
+  id: 'mock',
+  label: '模拟模型',
+  modelPrefix: 'mock:',
+  isConfigured: () => getDefaultProviderId() === 'mock' || !!process.env.MOCK_LLM_RESPONSES,
+  models: () => [{ model: 'scripted', label: 'Scripted' }],
+  create: () => {
+    let script: string[] = [];
+    if (process.env.MOCK_LLM_RESPONSES) {
+      try {
+        script = JSON.parse(process.env.MOCK_LLM_RESPONSES);
+      } catch {
+        console.error('[LLM] MOCK_LLM_RESPONSES 不是合法的 JSON 数组，忽略');
+      }
+    }
+    return new ChatMock(script);
+  },
+};
+
+const CHAT_PROVIDERS: ChatProvider[] = [dashscopeProvider, openaiProvider, ollamaProvider, mockProvider];
+
+// LLM_PROVIDER 指定默认提供方，"qwen" 为历史取值，等同于 dashscope
+function getDefaultProviderId(): string {
+  const provider = (process.env.LLM_PROVIDER || 'dashscope').toLowerCase();
+  return provider === 'qwen' ? 'dashscope' : provider;
+}
+
+// 把模型值解析为提供方和模型名：先看前缀，再查各提供方的模型列表，最后退回默认提供方
+function resolveModel(value: string): { provider: ChatProvider; model: string } {
+  for (const provider of CHAT_PROVIDERS) {
+    if (provider.modelPrefix && value.startsWith(provider.modelPrefix)) {
+      return { provider, model: value.slice(provider.modelPrefix.length) };
+    }
+  }
+
+  const listed = CHAT_PROVIDERS.find(p => p.isConfigured() && p.models().some(m => m.model === value));
+  if (listed) {
+    return { provider: listed, model: value };
+  }
+
+  const fallback = CHAT_PROVIDERS.find(p => p.id === getDefaultProviderId()) || dashscopeProvider;
+  return { provider: fallback, model: value };
 }
 
 export function createLLM(model?: string, temperature?: number) {
-  const provider = process.env.LLM_PROVIDER || 'qwen';
-  if (provider === 'qwen') return createQwenChatModel(model, temperature);
-  else return createQwenChatModel(model, temperature);
-}
-
-// 可用的模型列表
-export const AVAILABLE_MODELS = [
-  { value: 'deepseek-r1', label: 'DeepSeek R1' },
-  { value: 'deepseek-v3', label: 'DeepSeek V3' },
-  { value: 'qwen3-max', label: 'Qwen3 Max (优秀)' },
-  { value: 'qwen-max', label: 'Qwen Max (推荐)' },
-  { value: 'qwen-plus', label: 'Qwen Plus (便宜)' },
-  { value: 'qwen-turbo', label: 'Qwen Turbo (快速)' },
-  { value: 'qwen-long', label: 'Qwen Long (长文本)' },
-  { value: 'glm-4.6', label:'GLM 4.6'},
-  { value: 'glm-4.5', label:'GLM 4.5'},
-  { value: 'kimi-k2-thinking', label:'Kimi K2 Thinking'},
-  { value: 'Moonshot-Kimi-K2-Instruct', label:'Kimi K2 Instruct'},
-];
+  const value = model || process.env.MODEL_NAME || 'qwen-max';
+  const resolved = resolveModel(value);
+  return resolved.provider.create(resolved.model, temperature ?? 0.3);
+}
+
+// 可用的模型列表：由已配置的提供方生成
+export function getAvailableModels(): ModelOption[] {
+  return CHAT_PROVIDERS
+    .filter(provider => provider.isConfigured())
+    .flatMap(provider => provider.models().map(m => ({
+      value: `${provider.modelPrefix}${m.model}`,
+      label: provider.modelPrefix ? `${m.label} (${provider.label})` : m.label,
+      provider: provider.id,
+    })));
+}
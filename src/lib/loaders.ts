@@ -0,0 +1,416 @@
+import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
+import { Document } from '@langchain/core/documents';
+import type { Range, WorkSheet } from 'xlsx';
+import type { RagConfig } from './vector-store';
+
+// 文档加载器：每种格式注册扩展名、MIME 类型、解析器和默认分块方式，新增格式只需注册一个加载器
+export interface DocumentLoader {
+  fileType: string;        // 展示用的类型名，也写入片段 metadata.fileType
+  extensions: string[];    // 小写扩展名，不含点
+  mimeTypes: string[];
+  parseErrorMessage: string; // 解析失败时给用户的提示
+  // 解析为一个或多个文档（如按页、按工作表），metadata 会带入每个片段
+  parse(buffer: Buffer): Promise<Document[]>;
+  // 分块，未提供时使用通用的递归字符分块
+  split?(docs: Document[], config: RagConfig): Promise<Document[]>;
+}
+
+// 中英文标点优先的分隔符
+const DEFAULT_SEPARATORS = ['\n\n', '\n', '。', '！', '？', '；', '.', '!', '?', ';', ',', '，', ' ', ''];
+
+export function splitByCharacters(docs: Document[], config: RagConfig): Promise<Document[]> {
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: config.chunkSize,
+    chunkOverlap: config.chunkOverlap,
+    separators: DEFAULT_SEPARATORS,
+  });
+  return splitter.splitDocuments(docs);
+}
+
+// 标题会拼在片段前一起嵌入，正文按剩余长度分块
+export async function splitBySections(docs: Document[], config: RagConfig): Promise<Document[]> {
+  const chunks: Document[] = [];
+  for (const doc of docs) {
+    const headingLength = (doc.metadata.headingPath as string | undefined)?.length ?? 0;
+    const chunkSize = Math.max(config.chunkSize - headingLength, Math.ceil(config.chunkSize / 2));
+    const chunkOverlap = Math.min(config.chunkOverlap, Math.floor(chunkSize / 2));
+    chunks.push(...await splitByCharacters([doc], { ...config, chunkSize, chunkOverlap }));
+  }
+  return chunks;
+}
+
+// 各页拼接后整体分块（片段可以跨页），再按片段在全文中的位置算出起止页码
+export async function splitByPages(docs: Document[], config: RagConfig): Promise<Document[]> {
+  if (docs.length === 0) return [];
+
+  const { page: _page, ...baseMetadata } = docs[0].metadata;
+  const pageStarts: { offset: number; page: number }[] = [];
+  let text = '';
+  docs.forEach((doc, i) => {
+    if (i > 0) text += '\n\n';
+    pageStarts.push({ offset: text.length, page: doc.metadata.page as number });
+    text += doc.pageContent;
+  });
+
+  const pageAt = (offset: number) => {
+    let page = pageStarts[0].page;
+    for (const start of pageStarts) {
+      if (start.offset > offset) break;
+      page = start.page;
+    }
+    return page;
+  };
+
+  const chunks = await splitByCharacters([new Document({ pageContent: text, metadata: baseMetadata })], config);
+  // 片段按顺序产生且可能重叠，从上一个片段的起点之后继续查找
+  let cursor = 0;
+  return chunks.map(chunk => {
+    const found = text.indexOf(chunk.pageContent, cursor);
+    const start = found >= 0 ? found : cursor;
+    if (found >= 0) cursor = found + 1;
+    const page = pageAt(start);
+    const pageEnd = pageAt(start + chunk.pageContent.length - 1);
+    return new Document({
+      pageContent: chunk.pageContent,
+      metadata: { ...chunk.metadata, page, ...(pageEnd !== page ? { pageEnd } : {}) },
+    });
+  });
+}
+
+function rowRangeLabel(sheet: string, row: number, rowEnd?: number): string {
+  return `【工作表: ${sheet}，第 ${rowEnd ? `${row}-${rowEnd}` : row} 行】`;
+}
+
+// 表格按行分块：同一工作表中相邻的行合并到 chunkSize 以内，不会把一行切成两半；单行超长时才按字符切分
+export async function splitByRows(docs: Document[], config: RagConfig): Promise<Document[]> {
+  const chunks: Document[] = [];
+  let group: Document[] = [];
+  let length = 0;
+
+  const flush = async () => {
+    if (group.length === 0) return;
+    const { row, sheet, ...metadata } = group[0].metadata;
+    const last = group[group.length - 1].metadata.row;
+    const rowEnd = last !== row ? last : undefined;
+    const doc = new Document({
+      pageContent: `${rowRangeLabel(sheet, row, rowEnd)}\n${group.map(d => d.pageContent).join('\n\n')}`,
+      metadata: { ...metadata, sheet, row, ...(rowEnd ? { rowEnd } : {}) },
+    });
+    chunks.push(...(doc.pageContent.length > config.chunkSize ? await splitByCharacters([doc], config) : [doc]));
+    group = [];
+    length = 0;
+  };
+
+  for (const doc of docs) {
+    const label = rowRangeLabel(doc.metadata.sheet, doc.metadata.row).length;
+    if (group.length > 0 && (doc.metadata.sheet !== group[0].metadata.sheet
+      || label + length + doc.pageContent.length + 2 > config.chunkSize)) {
+      await flush();
+    }
+    group.push(doc);
+    length += doc.pageContent.length + 2;
+  }
+  await flush();
+  return chunks;
+}
+
+function textDocument(text: string): Document[] {
+  return [new Document({ pageContent: text, metadata: {} })];
+}
+
+// 按标题把正文归入章节，每个章节一个文档，metadata.headingPath 形如 "第三章 > 3.2 请假制度"
+class SectionCollector {
+  readonly sections: Document[] = [];
+  private headings: { level: number; title: string }[] = [];
+  private lines: string[] = [];
+
+  // Markdown 保留原有换行；HTML 每个块是一个段落，用空行分隔以便按段落分块
+  constructor(private readonly lineSeparator = '\n') {}
+
+  heading(level: number, title: string) {
+    this.flush();
+    while (this.headings.length > 0 && this.headings[this.headings.length - 1].level >= level) {
+      this.headings.pop();
+    }
+    this.headings.push({ level, title });
+  }
+
+  line(text: string) {
+    this.lines.push(text);
+  }
+
+  flush() {
+    const content = this.lines.join(this.lineSeparator).trim();
+    this.lines = [];
+    if (!content) return;
+    const headingPath = this.headings.map(h => h.title).join(' > ');
+    this.sections.push(new Document({ pageContent: content, metadata: headingPath ? { headingPath } : {} }));
+  }
+}
+
+// ATX 标题（# 到 ######），忽略代码块中的 #
+function parseMarkdownSections(text: string): Document[] {
+  const collector = new SectionCollector();
+  let inCodeBlock = false;
+  for (const line of text.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+    }
+    const match = inCodeBlock ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      collector.heading(match[1].length, match[2].trim());
+    } else {
+      collector.line(line);
+    }
+  }
+  collector.flush();
+  return collector.sections;
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function stripTags(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]+>/g, '')).trim();
+}
+
+// mammoth 输出的 HTML 结构简单，按块级元素扫描即可：h1-h6 为标题，表格按行输出，单元格用 | 分隔
+function parseHtmlSections(html: string): Document[] {
+  const collector = new SectionCollector('\n\n');
+  const blockPattern = /<(h[1-6]|p|li|tr)(?:\s[^>]*)?>([\s\S]*?)<\/\1>/g;
+  for (const [, tag, inner] of Array.from(html.matchAll(blockPattern))) {
+    if (tag.startsWith('h')) {
+      const title = stripTags(inner);
+      if (title) collector.heading(Number(tag[1]), title);
+    } else if (tag === 'tr') {
+      const cells = Array.from(inner.matchAll(/<(td|th)(?:\s[^>]*)?>([\s\S]*?)<\/\1>/g)).map(([, , cell]) => stripTags(cell));
+      collector.line(cells.join(' | '));
+    } else {
+      collector.line(stripTags(inner));
+    }
+  }
+  collector.flush();
+  return collector.sections;
+}
+
+const textLoader: DocumentLoader = {
+  fileType: 'TXT',
+  extensions: ['txt'],
+  mimeTypes: ['text/plain'],
+  parseErrorMessage: 'TXT 读取失败',
+  async parse(buffer) {
+    return textDocument(buffer.toString('utf-8'));
+  },
+};
+
+const markdownLoader: DocumentLoader = {
+  fileType: 'Markdown',
+  extensions: ['md', 'markdown'],
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  parseErrorMessage: 'Markdown 读取失败',
+  async parse(buffer) {
+    return parseMarkdownSections(buffer.toString('utf-8'));
+  },
+  split: splitBySections,
+};
+
+interface PdfPage {
+  pageIndex: number;
+  getTextContent(options: object): Promise<{ items: { str: string; transform: number[] }[] }>;
+}
+
+// 与 pdf-parse 默认的逐页渲染相同（纵坐标变化时换行），只是把每页文本单独保存下来
+async function renderPdfPage(pageData: PdfPage, pages: string[]): Promise<string> {
+  const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    const y = item.transform[5];
+    text += lastY === undefined || lastY === y ? item.str : '\n' + item.str;
+    lastY = y;
+  }
+  pages[pageData.pageIndex] = text;
+  return text;
+}
+
+const pdfLoader: DocumentLoader = {
+  fileType: 'PDF',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+  parseErrorMessage: 'PDF 解析失败，可能是扫描版或加密 PDF',
+  async parse(buffer) {
+    const pdfParse = (await import('pdf-parse')).default;
+    const pages: string[] = [];
+    await pdfParse(buffer, { pagerender: (pageData: PdfPage) => renderPdfPage(pageData, pages) });
+    // 渲染失败的页会被 pdf-parse 跳过，Array.from 把空位补成空文本以保持页码对应
+    return Array.from(pages, (text, i) => new Document({ pageContent: text || '', metadata: { page: i + 1 } }));
+  },
+  split: splitByPages,
+};
+
+// 单元格文本是否像数值或日期（表头一般是文字）
+function isValueLike(text: string): boolean {
+  return /^[-+]?[\d,.]+%?$/.test(text) || /^\d{1,4}[-/.年]\d{1,2}([-/.月]\d{1,4}日?)?$/.test(text);
+}
+
+// 表头行：非空单元格占到列数的一半以上、都是文字且互不重复（横向合并填充出的相邻重复值只算一个）
+function looksLikeHeader(row: string[], width: number): boolean {
+  const cells = row.filter((cell, i) => cell && cell !== row[i - 1]);
+  return cells.length >= Math.max(2, Math.ceil(width / 2))
+    && cells.every(cell => !isValueLike(cell))
+    && new Set(cells).size === cells.length;
+}
+
+function isBlankRow(row: string[]): boolean {
+  return row.every(cell => !cell);
+}
+
+// 在前 10 个非空行中查找表头，找不到返回 -1
+function detectHeaderRow(rows: string[][]): number {
+  const width = rows.reduce((max, row) => Math.max(max, row.filter(Boolean).length), 0);
+  let checked = 0;
+  for (let i = 0; i < rows.length && checked < 10; i++) {
+    if (isBlankRow(rows[i])) continue;
+    checked++;
+    const hasDataBelow = rows.slice(i + 1).some(row => !isBlankRow(row));
+    if (hasDataBelow && looksLikeHeader(rows[i], width)) return i;
+  }
+  return -1;
+}
+
+type XLSXModule = typeof import('xlsx');
+
+// 合并单元格的值只存在左上角，复制到整个合并区域，使每行都能拿到完整的值
+function fillMergedCells(XLSX: XLSXModule, sheet: WorkSheet) {
+  for (const merge of sheet['!merges'] || []) {
+    const origin = sheet[XLSX.utils.encode_cell(merge.s)];
+    if (!origin) continue;
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        if (r !== merge.s.r || c !== merge.s.c) {
+          sheet[XLSX.utils.encode_cell({ r, c })] = { ...origin };
+        }
+      }
+    }
+  }
+}
+
+// 没有表头时用列号（列A、列B）代替；表头中横向合并的单元格说明下一行是子表头，两行合并为“联系方式 / 电话”
+function buildHeaders(XLSX: XLSXModule, sheet: WorkSheet, rows: string[][], headerIndex: number, startRow: number, startCol: number) {
+  const headerRow = startRow + headerIndex;
+  const hasGroupedHeader = headerIndex >= 0 && (sheet['!merges'] || []).some((merge: Range) =>
+    merge.s.r <= headerRow && merge.e.r >= headerRow && merge.e.c > merge.s.c);
+  const subRow = rows[headerIndex + 1];
+  const useSubRow = hasGroupedHeader && subRow !== undefined && !isBlankRow(subRow)
+    && subRow.every(cell => !cell || !isValueLike(cell));
+
+  const seen = new Map<string, number>();
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const headers = Array.from({ length: width }, (_, c) => {
+    const top = rows[headerIndex]?.[c] || '';
+    const sub = useSubRow ? subRow[c] || '' : '';
+    let name = sub && sub !== top ? (top ? `${top} / ${sub}` : sub) : top;
+    if (!name) name = `列${XLSX.utils.encode_col(startCol + c)}`;
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+  return { headers, dataStart: headerIndex + (useSubRow ? 2 : 1) };
+}
+
+// 每个数据行一个文档，内容为“表头: 值”，metadata 带工作表名和 Excel 中的行号；表头之上的标题行单独成一个文档
+function parseSheetRows(XLSX: XLSXModule, sheetName: string, sheet: WorkSheet): Document[] {
+  if (!sheet['!ref']) return [];
+  fillMergedCells(XLSX, sheet);
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const rows: string[][] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', blankrows: true, raw: false })
+    .map((row: unknown[]) => row.map(cell => String(cell ?? '').trim()));
+  if (rows.every(isBlankRow)) return [];
+
+  const rowNumber = (index: number) => range.s.r + index + 1;
+  const headerIndex = detectHeaderRow(rows);
+  const { headers, dataStart } = buildHeaders(XLSX, sheet, rows, headerIndex, range.s.r, range.s.c);
+  const docs: Document[] = [];
+
+  const titleRows = rows.slice(0, Math.max(headerIndex, 0)).filter(row => !isBlankRow(row));
+  if (titleRows.length > 0) {
+    // 合并单元格填充后同一行会出现重复值，标题行只保留一份
+    const title = titleRows.map(row => Array.from(new Set(row.filter(Boolean))).join(' | ')).join('\n');
+    docs.push(new Document({ pageContent: title, metadata: { sheet: sheetName, row: rowNumber(0) } }));
+  }
+
+  for (let i = dataStart; i < rows.length; i++) {
+    const pairs = rows[i]
+      .map((value, c) => (value ? `${headers[c]}: ${value}` : ''))
+      .filter(Boolean);
+    if (pairs.length === 0) continue;
+    docs.push(new Document({ pageContent: pairs.join('\n'), metadata: { sheet: sheetName, row: rowNumber(i) } }));
+  }
+  return docs;
+}
+
+const excelLoader: DocumentLoader = {
+  fileType: 'Excel',
+  extensions: ['xlsx', 'xls'],
+  mimeTypes: [
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-excel',
+  ],
+  parseErrorMessage: 'Excel 解析失败',
+  async parse(buffer) {
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    return workbook.SheetNames.flatMap((sheetName: string) => parseSheetRows(XLSX, sheetName, workbook.Sheets[sheetName]));
+  },
+  split: splitByRows,
+};
+
+const wordLoader: DocumentLoader = {
+  fileType: 'Word',
+  extensions: ['docx', 'doc'],
+  mimeTypes: [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/msword',
+  ],
+  parseErrorMessage: 'Word 解析失败，仅支持 .docx 格式',
+  async parse(buffer) {
+    const mammoth = await import('mammoth');
+    // 转为 HTML 以保留标题层级（需使用 Word 内置的“标题 1/2/3”样式）
+    const result = await mammoth.convertToHtml({ buffer });
+    if (result.messages.length > 0) {
+      console.log('[Loader] Word 解析警告:', result.messages);
+    }
+    return parseHtmlSections(result.value);
+  },
+  split: splitBySections,
+};
+
+const LOADERS: DocumentLoader[] = [textLoader, markdownLoader, pdfLoader, excelLoader, wordLoader];
+
+export function getFileExtension(filename: string): string {
+  return filename.toLowerCase().split('.').pop() || '';
+}
+
+// 按扩展名查找加载器，扩展名无法识别时再按 MIME 类型查找
+export function findLoader(filename: string, mimeType?: string): DocumentLoader | undefined {
+  const ext = getFileExtension(filename);
+  return LOADERS.find(loader => loader.extensions.includes(ext))
+    || (mimeType ? LOADERS.find(loader => loader.mimeTypes.includes(mimeType)) : undefined);
+}
+
+export function getSupportedExtensions(): string[] {
+  return LOADERS.flatMap(loader => loader.extensions);
+}
+
+// 根据文件名检测文件类型
+export function detectFileType(filename: string): string {
+  return findLoader(filename)?.fileType || 'Unknown';
+}
@@ -1,76 +1,290 @@
-import { getVectorStore, getRagConfig } from './vector-store';
-import { createLLM } from './llm';
+import { createHash } from 'crypto';
+import { Document } from '@langchain/core/documents';
+import type { UsageMetadata } from '@langchain/core/messages';
+import { getRagConfig, getDocumentMetas, getCollectionRevision, RagConfig, RetrievalMode, DEFAULT_COLLECTION_ID } from './vector-store';
+import { hybridSearch, SearchHit, RetrievalFilter } from './hybrid-search';
+import { getReranker } from './reranker';
+import { getEmbeddings } from './embeddings';
+import { createLLM, addUsage, estimateTokens, getTokenUsage, getUsageMetadata, NO_USAGE, TokenUsage } from './llm';
+import { canViewDocument, Principal } from './auth';
+import { findCachedAnswer, storeCachedAnswer, AnswerCacheInfo, CachedAnswer } from './answer-cache';
 
 export interface RetrievedChunk {
   content: string;
   source: string;
-  score?: number;
+  headingPath?: string;  // 所在章节，如 "第三章 > 3.2 请假制度"
+  page?: number;         // PDF 页码，从 1 开始
+  pageEnd?: number;      // 片段跨页时的结束页码
+  sheet?: string;        // Excel 工作表名
+  row?: number;          // Excel 行号
+  rowEnd?: number;       // 片段包含多行时的结束行号
+  score?: number;        // 与问题的向量相似度，仅关键词检索时没有
+  rerankScore?: number;  // 重排序模型给出的相关度
 }
 
 export interface RagResult {
   answer: string;
   chunks: RetrievedChunk[];
+  citations: number[];   // 回答中实际引用的片段编号，对应 chunks 中第 n 个（从 1 开始）
   suggestedQuestions: string[];
+  usage: TokenUsage;
+  cache?: AnswerCacheInfo;  // 回答来自缓存时，记录命中的问题和相似度
 }
 
-export async function queryRag(question: string, customTopK?: number): Promise<RagResult> {
-  const config = getRagConfig();
-  const topK = customTopK ?? config.topK;
-  
-  const vectorStore = await getVectorStore();
-  const retriever = vectorStore.asRetriever({ k: topK });
-  const docs = await retriever.invoke(question);
+// 对话历史中的一轮消息
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface RagQueryOptions {
+  topK?: number;
+  history?: ChatTurn[];
+  mode?: RetrievalMode;  // 本次请求的检索方式，默认使用 RagConfig.retrievalMode
+  filter?: RetrievalFilter; // 只在指定的文档、文件类型或上传时间范围内检索
+  collectionId?: string;    // 检索的知识库，默认为默认知识库
+  principal?: Principal;    // 提问的调用方，只检索其可见的文档；未提供时不限制（仅供内部调用）
+  // 问答结束时回调一次本次消耗的 token（含问题改写和 LLM 重排序）；流式问答中途断开或出错时按已生成的部分计算
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// 流式问答事件：先返回检索片段，再逐段返回答案，最后返回推荐问题
+export type RagStreamEvent =
+  | { type: 'chunks'; chunks: RetrievedChunk[] }
+  | { type: 'delta'; content: string }
+  | { type: 'done'; answer: string; citations: number[]; suggestedQuestions: string[]; usage: TokenUsage; cache?: AnswerCacheInfo };
+
+const NOT_FOUND_ANSWER = '抱歉，知识库中没有找到相关信息。请先上传相关文档。';
+const BELOW_THRESHOLD_ANSWER = '根据已上传的文档，未找到与该问题相关的信息。';
+const OUT_OF_SCOPE_ANSWER = '在所选的文档范围内未找到相关信息，可以尝试扩大检索范围。';
+const SUGGESTED_QUESTIONS_SEPARATOR = '---SUGGESTED_QUESTIONS---';
+// 引用标记 [1]、[1][3]，也兼容模型偶尔输出的 [1,3]、[片段1]、【片段1】
+const CITATION_PATTERN = /[\[【](?:片段)?\s*(\d{1,2}(?:\s*[,，、]\s*\d{1,2})*)\s*[\]】]/g;
+
+interface RetrievalResult {
+  config: RagConfig;
+  docs: Document[];
+  chunks: RetrievedChunk[];
+  history: ChatTurn[];
+  usage: TokenUsage;  // 问题改写和 LLM 重排序消耗的 token
+  // 没有可用片段时直接返回的回答（不调用大模型）
+  notFoundAnswer?: string;
+}
+
+// 从最近的对话开始倒序选取，直到超出 token 预算
+function selectRecentHistory(history: ChatTurn[], tokenBudget: number): ChatTurn[] {
+  const selected: ChatTurn[] = [];
+  let used = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(history[i].content);
+    if (used + tokens > tokenBudget) break;
+    selected.unshift(history[i]);
+    used += tokens;
+  }
+  return selected;
+}
+
+// 历史回答中的引用标记指向上一轮的片段，改写和生成时去掉以免混淆
+function formatHistory(history: ChatTurn[]): string {
+  return history
+    .map(turn => turn.role === 'user' ? `用户：${turn.content}` : `助手：${turn.content.replace(CITATION_PATTERN, '')}`)
+    .join('\n');
+}
+
+// 结合对话历史把追问改写成可独立检索的问题，如 "它的创始人是谁？" → "阿里巴巴的创始人是谁？"
+async function rewriteQuestion(question: string, history: ChatTurn[], config: RagConfig): Promise<{ question: string; usage: TokenUsage }> {
+  if (history.length === 0) {
+    return { question, usage: NO_USAGE };
+  }
+
+  const prompt = `请根据对话历史，将用户的最新问题改写为一个不依赖上下文、可以独立理解的完整问题。
+要求：补全代词和省略的主语，保留原问题的意图和关键词；如果最新问题本身已经完整，原样输出。只输出改写后的问题，不要任何解释。
+
+## 对话历史：
+${formatHistory(history)}
+
+## 最新问题：
+${question}
+
+## 改写后的问题：`;
+
+  try {
+    const model = createLLM(config.model, 0.1);
+    const response = await model.invoke(prompt);
+    const content = response.content as string;
+    const usage = getTokenUsage(getUsageMetadata(response), prompt, content);
+    const rewritten = content.trim().split('\n')[0].trim();
+    if (rewritten.length === 0 || rewritten.length > 500) {
+      return { question, usage };
+    }
+    console.log(`[RAG] 问题改写: "${question}" → "${rewritten}"`);
+    return { question: rewritten, usage };
+  } catch (error) {
+    // 改写失败不影响问答，退回原问题检索
+    console.error('[RAG] 问题改写失败，使用原问题:', error);
+    return { question, usage: NO_USAGE };
+  }
+}
+
+// 答案缓存的查找结果：命中时带上缓存的回答，未命中时保留向量和范围用于保存新回答
+interface AnswerCacheContext {
+  collectionId: string;
+  scope: string;
+  revision: number;
+  vector: number[];
+  hit?: { result: CachedAnswer; cache: AnswerCacheInfo };
+}
+
+// 查找答案缓存；追问的含义依赖对话历史，不使用缓存
+async function lookupAnswerCache(question: string, options: RagQueryOptions): Promise<AnswerCacheContext | undefined> {
+  if (options.history?.length) return undefined;
+  const collectionId = options.collectionId ?? DEFAULT_COLLECTION_ID;
+  const config = await getRagConfig(collectionId);
+  if (!(config.answerCacheThreshold > 0)) return undefined;
+
+  const metas = await getDocumentMetas(collectionId);
+  if (metas.length === 0) return undefined;
+
+  // 配置、检索参数或调用方可见的文档不同时，相同的问题也可能得到不同的回答
+  const { principal } = options;
+  const visibleDocIds = metas.filter(meta => !principal || canViewDocument(meta, principal)).map(meta => meta.id).sort();
+  const scope = createHash('sha256')
+    .update(JSON.stringify({ config, topK: options.topK, mode: options.mode, filter: options.filter, visibleDocIds }))
+    .digest('hex');
+  const revision = await getCollectionRevision(collectionId);
+  const vector = await getEmbeddings().embedQuery(question);
+  const hit = findCachedAnswer(collectionId, scope, revision, vector, config.answerCacheThreshold);
+  if (hit) {
+    console.log(`[RAG] 命中答案缓存 (相似度 ${hit.cache.similarity.toFixed(3)}): "${hit.cache.question}"`);
+  }
+  return { collectionId, scope, revision, vector, hit };
+}
+
+function saveToAnswerCache(context: AnswerCacheContext | undefined, question: string, result: CachedAnswer) {
+  if (!context) return;
+  storeCachedAnswer(context.collectionId, context.scope, context.revision, question, context.vector, result);
+}
+
+async function retrieve(question: string, options: RagQueryOptions, queryVector?: number[]): Promise<RetrievalResult> {
+  const config = await getRagConfig(options.collectionId);
+  const topK = options.topK ?? config.topK;
+  const history = selectRecentHistory(options.history || [], config.historyTokenBudget);
+  const rewritten = await rewriteQuestion(question, history, config);
+  const searchQuery = rewritten.question;
+  let usage = rewritten.usage;
+
+  const { principal } = options;
+  const mode = options.mode ?? config.retrievalMode;
+  const reranker = getReranker(config.reranker);
+  const fetchK = reranker ? topK * Math.max(1, config.rerankCandidateMultiplier) : topK;
+  const searched = await hybridSearch(searchQuery, {
+    k: fetchK,
+    mode,
+    hybridAlpha: config.hybridAlpha,
+    filter: options.filter,
+    visible: principal && (meta => canViewDocument(meta, principal)),
+    collectionId: options.collectionId,
+    queryVector: searchQuery === question ? queryVector : undefined,
+  });
+
+  // 相似度阈值：没有向量分数（仅关键词检索）的片段不受影响
+  const candidates = config.minScore > 0
+    ? searched.filter(hit => hit.vectorScore === undefined || hit.vectorScore >= config.minScore)
+    : searched;
+  if (searched.length > 0 && candidates.length < searched.length) {
+    console.log(`[RAG] ${searched.length - candidates.length} 个片段低于相似度阈值 ${config.minScore}，已丢弃`);
+  }
+
+  let hits: (SearchHit & { rerankScore?: number })[] = candidates.slice(0, topK);
+  if (reranker && candidates.length > 0) {
+    try {
+      const { scores, usage: rerankUsage } = await reranker.score(searchQuery, candidates.map(c => c.doc.pageContent), config);
+      if (rerankUsage) usage = addUsage(usage, rerankUsage);
+      hits = candidates
+        .map((hit, i) => ({ ...hit, rerankScore: scores[i] }))
+        .sort((a, b) => b.rerankScore - a.rerankScore)
+        .slice(0, topK);
+      console.log(`[RAG] 重排序 (${reranker.id}): ${candidates.length} 个候选 → ${hits.length} 个`);
+    } catch (error) {
+      // 重排序失败时保留一阶段检索的顺序
+      console.error(`[RAG] 重排序失败 (${reranker.id})，使用原始检索顺序:`, error);
+    }
+  }
+  const docs = hits.map(hit => hit.doc);
+
+  console.log(`[RAG] 检索到 ${docs.length} 个文档片段 (topK=${topK}, mode=${mode})`);
 
-  console.log(`[RAG] 检索到 ${docs.length} 个文档片段 (topK=${topK})`);
-  
   // 收集引用片段信息
-  const chunks: RetrievedChunk[] = docs.map((doc, i) => {
-    console.log(`[RAG] 片段 ${i + 1} (${doc.pageContent.length} 字符): ${doc.pageContent.substring(0, 80)}...`);
+  const chunks: RetrievedChunk[] = hits.map(({ doc, vectorScore, rerankScore }, i) => {
+    console.log(`[RAG] 片段 ${i + 1} (${doc.pageContent.length} 字符, 相似度 ${vectorScore?.toFixed(3) ?? '-'}): ${doc.pageContent.substring(0, 80)}...`);
     return {
       content: doc.pageContent,
       source: doc.metadata?.source || '未知来源',
+      headingPath: doc.metadata?.headingPath,
+      page: doc.metadata?.page,
+      pageEnd: doc.metadata?.pageEnd,
+      sheet: doc.metadata?.sheet,
+      row: doc.metadata?.row,
+      rowEnd: doc.metadata?.rowEnd,
+      score: vectorScore,
+      rerankScore,
     };
   });
 
-  if (docs.length === 0) {
-    return {
-      answer: '抱歉，知识库中没有找到相关信息。请先上传相关文档。',
-      chunks: [],
-      suggestedQuestions: [],
-    };
+  let notFoundAnswer: string | undefined;
+  if (searched.length === 0) {
+    notFoundAnswer = options.filter ? OUT_OF_SCOPE_ANSWER : NOT_FOUND_ANSWER;
+  } else if (docs.length === 0) {
+    notFoundAnswer = BELOW_THRESHOLD_ANSWER;
   }
 
-  const context = docs.map((d, i) => `【片段${i + 1}】\n${d.pageContent}`).join('\n\n---\n\n');
-  
-  const prompt = `你是一个专业的知识库问答助手。请严格根据以下提供的资料来回答用户的问题。
+  return { config, docs, chunks, history, usage, notFoundAnswer };
+}
+
+// 片段在原文件中的位置：PDF 页码或 Excel 工作表行号
+function formatLocation(metadata: Pick<RetrievedChunk, 'page' | 'pageEnd' | 'sheet' | 'row' | 'rowEnd'> = {}): string {
+  const { page, pageEnd, sheet, row, rowEnd } = metadata;
+  if (page) return pageEnd ? `第 ${page}-${pageEnd} 页` : `第 ${page} 页`;
+  if (sheet && row) return `${sheet} 第 ${rowEnd ? `${row}-${rowEnd}` : row} 行`;
+  return '';
+}
+
+function buildPrompt(question: string, docs: Document[], history: ChatTurn[]): string {
+  const context = docs.map((d, i) => {
+    const location = [d.metadata?.headingPath, formatLocation(d.metadata)].filter(Boolean);
+    const section = location.length > 0 ? `（${location.join('，')}）` : '';
+    return `【片段${i + 1}】${section}\n${d.pageContent}`;
+  }).join('\n\n---\n\n');
+  const historySection = history.length > 0
+    ? `## 对话历史（仅用于理解问题，答案仍须以参考资料为准）：\n${formatHistory(history)}\n\n`
+    : '';
+
+  return `你是一个专业的知识库问答助手。请严格根据以下提供的资料来回答用户的问题。
 
 ## 重要规则：
 1. 只能使用下面提供的资料内容来回答
 2. 如果资料中包含相关信息，请准确引用并回答
 3. 如果资料中确实没有相关信息，请明确说"根据已上传的文档，未找到相关信息"
 4. 回答要条理清晰，可以使用列表格式
-5. 回答完成后，在最后另起一行，以"---SUGGESTED_QUESTIONS---"开头，然后换行列出3个用户可能想继续问的相关问题，每个问题一行，问题要基于资料内容，帮助用户深入了解
+5. 在用到资料内容的句子末尾标注来源片段编号，如 [1]，多个来源写作 [1][3]；编号必须是上面列出的【片段N】中的 N
+6. 回答完成后，在最后另起一行，以"${SUGGESTED_QUESTIONS_SEPARATOR}"开头，然后换行列出3个用户可能想继续问的相关问题，每个问题一行，问题要基于资料内容，帮助用户深入了解
 
 ## 参考资料：
 ${context}
 
-## 用户问题：
+${historySection}## 用户问题：
 ${question}
 
 ## 回答：`;
+}
 
-  const model = createLLM(config.model, config.temperature);
-  console.log(`[RAG] 使用模型: ${config.model}, 温度: ${config.temperature}`);
-  const response = await model.invoke(prompt);
-  const rawAnswer = response.content as string;
-  
-  // 解析回答和推荐问题
+// 解析回答和推荐问题
+function parseAnswer(rawAnswer: string): { answer: string; suggestedQuestions: string[] } {
   let answer = rawAnswer;
   let suggestedQuestions: string[] = [];
-  
-  const separator = '---SUGGESTED_QUESTIONS---';
-  if (rawAnswer.includes(separator)) {
-    const parts = rawAnswer.split(separator);
+
+  if (rawAnswer.includes(SUGGESTED_QUESTIONS_SEPARATOR)) {
+    const parts = rawAnswer.split(SUGGESTED_QUESTIONS_SEPARATOR);
     answer = parts[0].trim();
     const questionsText = parts[1]?.trim() || '';
     suggestedQuestions = questionsText
@@ -79,6 +293,121 @@ ${question}
       .filter(q => q.length > 0 && q.length < 100)
       .slice(0, 3);
   }
-  
-  return { answer, chunks, suggestedQuestions };
+
+  return { answer, suggestedQuestions };
+}
+
+// 校验引用标记：统一为 [n] 格式，去掉不存在的片段编号，返回实际引用的编号（按首次出现的顺序）
+function extractCitations(rawAnswer: string, chunkCount: number): { answer: string; citations: number[] } {
+  const citations: number[] = [];
+  const answer = rawAnswer.replace(CITATION_PATTERN, (_, numbers: string) => numbers
+    .split(/[,，、]/)
+    .map(n => Number(n.trim()))
+    .filter(n => n >= 1 && n <= chunkCount)
+    .map(n => {
+      if (!citations.includes(n)) citations.push(n);
+      return `[${n}]`;
+    })
+    .join(''));
+  return { answer, citations };
+}
+
+export async function queryRag(question: string, options: RagQueryOptions = {}): Promise<RagResult> {
+  let usage = NO_USAGE;
+  try {
+    const cacheContext = await lookupAnswerCache(question, options);
+    if (cacheContext?.hit) {
+      return { ...cacheContext.hit.result, usage, cache: cacheContext.hit.cache };
+    }
+
+    const retrieval = await retrieve(question, options, cacheContext?.vector);
+    const { config, docs, chunks, history, notFoundAnswer } = retrieval;
+    usage = retrieval.usage;
+
+    if (notFoundAnswer) {
+      return {
+        answer: notFoundAnswer,
+        chunks: [],
+        citations: [],
+        suggestedQuestions: [],
+        usage,
+      };
+    }
+
+    const prompt = buildPrompt(question, docs, history);
+    const model = createLLM(config.model, config.temperature);
+    console.log(`[RAG] 使用模型: ${config.model}, 温度: ${config.temperature}`);
+    const response = await model.invoke(prompt);
+    const content = response.content as string;
+    usage = addUsage(usage, getTokenUsage(getUsageMetadata(response), prompt, content));
+    const parsed = parseAnswer(content);
+    const { answer, citations } = extractCitations(parsed.answer, chunks.length);
+    saveToAnswerCache(cacheContext, question, { answer, chunks, citations, suggestedQuestions: parsed.suggestedQuestions });
+
+    return { answer, chunks, citations, suggestedQuestions: parsed.suggestedQuestions, usage };
+  } finally {
+    options.onUsage?.(usage);
+  }
+}
+
+export async function* streamRag(question: string, options: RagQueryOptions = {}): AsyncGenerator<RagStreamEvent> {
+  // 客户端中途断开时生成器被提前结束，finally 中按提示词和已生成的部分计入用量
+  let retrievalUsage = NO_USAGE;
+  let prompt = '';
+  let raw = '';
+  let reported: UsageMetadata | undefined;
+  const currentUsage = () => addUsage(retrievalUsage, prompt ? getTokenUsage(reported, prompt, raw) : NO_USAGE);
+
+  try {
+    const cacheContext = await lookupAnswerCache(question, options);
+    if (cacheContext?.hit) {
+      const { result, cache } = cacheContext.hit;
+      yield { type: 'chunks', chunks: result.chunks };
+      yield { type: 'delta', content: result.answer };
+      yield { type: 'done', answer: result.answer, citations: result.citations, suggestedQuestions: result.suggestedQuestions, usage: NO_USAGE, cache };
+      return;
+    }
+
+    const retrieval = await retrieve(question, options, cacheContext?.vector);
+    const { config, docs, chunks, history, notFoundAnswer } = retrieval;
+    retrievalUsage = retrieval.usage;
+    yield { type: 'chunks', chunks };
+
+    if (notFoundAnswer) {
+      yield { type: 'delta', content: notFoundAnswer };
+      yield { type: 'done', answer: notFoundAnswer, citations: [], suggestedQuestions: [], usage: currentUsage() };
+      return;
+    }
+
+    prompt = buildPrompt(question, docs, history);
+    const model = createLLM(config.model, config.temperature);
+    console.log(`[RAG] 使用模型: ${config.model}, 温度: ${config.temperature} (流式)`);
+
+    // 推荐问题分隔符可能被拆到多个增量中，末尾保留一段不发送，直到确认不是分隔符
+    let sent = 0;
+    for await (const chunk of await model.stream(prompt)) {
+      reported = getUsageMetadata(chunk) ?? reported;
+      raw += chunk.content as string;
+      const separatorIndex = raw.indexOf(SUGGESTED_QUESTIONS_SEPARATOR);
+      const safeEnd = separatorIndex >= 0
+        ? separatorIndex
+        : Math.max(sent, raw.length - SUGGESTED_QUESTIONS_SEPARATOR.length + 1);
+      if (safeEnd > sent) {
+        yield { type: 'delta', content: raw.slice(sent, safeEnd) };
+        sent = safeEnd;
+      }
+    }
+
+    if (!raw.includes(SUGGESTED_QUESTIONS_SEPARATOR) && raw.length > sent) {
+      yield { type: 'delta', content: raw.slice(sent) };
+    }
+
+    // 流式输出的增量未经校验，done 中的 answer 是去掉无效引用后的最终版本
+    const parsed = parseAnswer(raw);
+    const { answer, citations } = extractCitations(parsed.answer, chunks.length);
+    saveToAnswerCache(cacheContext, question, { answer, chunks, citations, suggestedQuestions: parsed.suggestedQuestions });
+    yield { type: 'done', answer, citations, suggestedQuestions: parsed.suggestedQuestions, usage: currentUsage() };
+  } finally {
+    options.onUsage?.(currentUsage());
+  }
 }
@@ -0,0 +1,99 @@
+import { createLLM, getTokenUsage, getUsageMetadata, TokenUsage } from './llm';
+import { tokenize } from './keyword-index';
+import type { RagConfig, RerankerId } from './vector-store';
+
+// 重排序器：给出每个候选片段与问题的相关度，分数越高越相关
+export interface Reranker {
+  id: RerankerId;
+  // 返回与 documents 一一对应的分数；调用大模型打分时同时返回消耗的 token
+  score(query: string, documents: string[], config: RagConfig): Promise<{ scores: number[]; usage?: TokenUsage }>;
+}
+
+// 阿里云 DashScope gte-rerank 交叉编码模型
+const dashscopeReranker: Reranker = {
+  id: 'dashscope',
+  async score(query, documents) {
+    const apiKey = process.env.DASHSCOPE_API_KEY;
+    if (!apiKey) throw new Error('DASHSCOPE_API_KEY is required for reranking');
+
+    const response = await fetch('https://dashscope.aliyuncs.com/api/v1/services/rerank/text-rerank/text-rerank', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: process.env.RERANK_MODEL || 'gte-rerank',
+        input: { query, documents },
+        parameters: { return_documents: false, top_n: documents.length },
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('[Rerank] API 错误:', error);
+      throw new Error(`DashScope Rerank API error: ${error}`);
+    }
+
+    const data = await response.json();
+    const results: { index: number; relevance_score: number }[] = data.output?.results || [];
+    const scores = new Array(documents.length).fill(0);
+    results.forEach(r => {
+      scores[r.index] = r.relevance_score;
+    });
+    return { scores };
+  },
+};
+
+// 用当前聊天模型逐条打分 (0-10)，无需额外的重排序服务
+const llmReranker: Reranker = {
+  id: 'llm',
+  async score(query, documents, config) {
+    const list = documents
+      .map((doc, i) => `[${i}] ${doc.substring(0, 500).replace(/\s+/g, ' ')}`)
+      .join('\n');
+    const prompt = `请评估以下每个资料片段对回答问题的帮助程度，打分范围 0-10（10 表示直接包含答案，0 表示完全无关）。
+只输出一个 JSON 数组，按片段编号顺序给出分数，例如 [8, 0, 5]，不要任何解释。
+
+## 问题：
+${query}
+
+## 资料片段：
+${list}
+
+## 分数：`;
+
+    const model = createLLM(config.model, 0.1);
+    const response = await model.invoke(prompt);
+    const content = response.content as string;
+    const match = content.match(/\[[\s\S]*?\]/);
+    const parsed: unknown = match ? JSON.parse(match[0]) : null;
+    if (!Array.isArray(parsed) || parsed.length !== documents.length) {
+      throw new Error('LLM rerank returned an invalid score list');
+    }
+    return { scores: parsed.map(v => Number(v) / 10), usage: getTokenUsage(getUsageMetadata(response), prompt, content) };
+  },
+};
+
+// 本地打分：问题关键词在片段中的覆盖率，离线可用
+const localReranker: Reranker = {
+  id: 'local',
+  async score(query, documents) {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) return { scores: documents.map(() => 0) };
+
+    return {
+      scores: documents.map(doc => {
+        const docTerms = new Set(tokenize(doc));
+        const covered = queryTerms.filter(term => docTerms.has(term)).length;
+        return covered / queryTerms.length;
+      }),
+    };
+  },
+};
+
+const RERANKERS: Reranker[] = [dashscopeReranker, llmReranker, localReranker];
+
+export function getReranker(id: RerankerId): Reranker | null {
+  return RERANKERS.find(r => r.id === id) || null;
+}
@@ -0,0 +1,224 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { NextRequest } from 'next/server';
+import type { Principal } from './auth';
+
+// 问答接口的限流和每日配额：按 API Key、账号或 IP（未启用认证时）分别计数
+// 限流窗口只保存在内存中，每日用量保存到 data/usage.json，重启后当天的配额不会重置
+
+const USAGE_DIR = './data';
+const USAGE_FILE = 'usage.json';
+// 每日用量最多每隔几秒写一次文件
+const PERSIST_DELAY_MS = 5000;
+
+// 滑动窗口：windowSeconds 秒内最多 limit 次请求
+export interface RateLimitWindow {
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface UsageLimits {
+  windows: RateLimitWindow[];
+  dailyRequests: number;  // 每日请求次数上限，0 表示不限
+  dailyTokens: number;    // 每日 token 上限，0 表示不限
+}
+
+export interface DailyUsage {
+  requests: number;
+  tokens: number;
+}
+
+interface UsageStore {
+  date: string;  // 本地日期 YYYY-MM-DD，跨天后清零
+  subjects: Record<string, DailyUsage>;
+}
+
+export type LimitCheck =
+  | { allowed: true }
+  | { allowed: false; message: string; retryAfter: number };  // retryAfter 为秒数
+
+// 管理员用量视图中的一行
+export interface SubjectUsage extends DailyUsage {
+  subject: string;
+  windowCounts: number[];  // 与 limits.windows 一一对应的当前窗口内请求数
+}
+
+declare global {
+  var usageStore: UsageStore | undefined;
+  var usageStoreLoading: Promise<UsageStore> | undefined;
+  var usagePersistTimer: ReturnType<typeof setTimeout> | undefined;
+  var rateLimitHits: Map<string, number[]> | undefined;
+}
+
+// CHAT_RATE_LIMITS 格式为 "次数/秒数"，多个窗口用逗号分隔，如 "20/60,200/3600"；设为 0 关闭限流
+function parseRateLimits(value: string): RateLimitWindow[] {
+  return value
+    .split(',')
+    .map(part => part.trim().split('/').map(Number))
+    .filter(([limit, windowSeconds]) => limit > 0 && windowSeconds > 0)
+    .map(([limit, windowSeconds]) => ({ limit, windowSeconds }));
+}
+
+function readQuota(value: string | undefined): number {
+  const quota = Number(value);
+  return Number.isFinite(quota) && quota > 0 ? quota : 0;
+}
+
+export function getUsageLimits(): UsageLimits {
+  return {
+    windows: parseRateLimits(process.env.CHAT_RATE_LIMITS ?? '20/60'),
+    dailyRequests: readQuota(process.env.CHAT_DAILY_REQUEST_QUOTA),
+    dailyTokens: readQuota(process.env.CHAT_DAILY_TOKEN_QUOTA),
+  };
+}
+
+function getClientIp(req: NextRequest): string {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',')[0].trim();
+  return forwarded || req.headers.get('x-real-ip') || req.ip || 'unknown';
+}
+
+// 计数对象："key:<API Key ID>"、"user:<用户名>" 或 "ip:<地址>"
+export function getUsageSubject(req: NextRequest, principal: Principal): string {
+  if (principal.type === 'apiKey' && principal.keyId) return `key:${principal.keyId}`;
+  if (principal.type === 'session') return `user:${principal.username}`;
+  return `ip:${getClientIp(req)}`;
+}
+
+function today(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+// 距离本地时间次日零点的秒数
+function secondsUntilTomorrow(): number {
+  const now = new Date();
+  const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return Math.ceil((tomorrow.getTime() - now.getTime()) / 1000);
+}
+
+async function loadUsageStore(): Promise<UsageStore> {
+  const filePath = join(USAGE_DIR, USAGE_FILE);
+  let store: UsageStore = { date: today(), subjects: {} };
+  try {
+    store = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[Usage] 读取 ${filePath} 失败:`, error);
+    }
+  }
+  global.usageStore = store;
+  return store;
+}
+
+function loadUsageStoreOnce(): Promise<UsageStore> {
+  if (global.usageStore) {
+    return Promise.resolve(global.usageStore);
+  }
+  if (!global.usageStoreLoading) {
+    global.usageStoreLoading = loadUsageStore().finally(() => {
+      global.usageStoreLoading = undefined;
+    });
+  }
+  return global.usageStoreLoading;
+}
+
+// 获取当天的用量，跨天时清零
+async function getUsageStore(): Promise<UsageStore> {
+  const store = await loadUsageStoreOnce();
+  if (store.date !== today()) {
+    store.date = today();
+    store.subjects = {};
+  }
+  return store;
+}
+
+function schedulePersist() {
+  if (global.usagePersistTimer) return;
+  global.usagePersistTimer = setTimeout(async () => {
+    global.usagePersistTimer = undefined;
+    try {
+      await mkdir(USAGE_DIR, { recursive: true });
+      const filePath = join(USAGE_DIR, USAGE_FILE);
+      const tmpPath = `${filePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(global.usageStore, null, 2), 'utf-8');
+      await rename(tmpPath, filePath);
+    } catch (error) {
+      console.error('[Usage] 保存失败:', error);
+    }
+  }, PERSIST_DELAY_MS);
+}
+
+function getHits(): Map<string, number[]> {
+  if (!global.rateLimitHits) {
+    global.rateLimitHits = new Map();
+  }
+  return global.rateLimitHits;
+}
+
+// 最长窗口内的请求时间戳
+function recentHits(subject: string, windows: RateLimitWindow[], now: number): number[] {
+  const longest = windows.reduce((max, w) => Math.max(max, w.windowSeconds), 0) * 1000;
+  const hits = (getHits().get(subject) || []).filter(time => now - time < longest);
+  if (hits.length > 0) {
+    getHits().set(subject, hits);
+  } else {
+    getHits().delete(subject);
+  }
+  return hits;
+}
+
+// 检查限流和每日配额，通过时计入一次请求；token 在回答完成后由 recordTokenUsage 计入
+export async function acquireChatQuota(subject: string): Promise<LimitCheck> {
+  // 先读取用量，之后的检查和计数之间没有 await，并发请求不会同时通过
+  const store = await getUsageStore();
+  const limits = getUsageLimits();
+  const now = Date.now();
+  const hits = recentHits(subject, limits.windows, now);
+
+  for (const { limit, windowSeconds } of limits.windows) {
+    const inWindow = hits.filter(time => now - time < windowSeconds * 1000);
+    if (inWindow.length >= limit) {
+      // 窗口内最早的一次请求过期后即可重试
+      const retryAfter = Math.max(1, Math.ceil((inWindow[0] + windowSeconds * 1000 - now) / 1000));
+      return { allowed: false, message: `⚠️ 请求过于频繁（每 ${windowSeconds} 秒最多 ${limit} 次），请 ${retryAfter} 秒后再试。`, retryAfter };
+    }
+  }
+
+  const usage = store.subjects[subject] || { requests: 0, tokens: 0 };
+  if (limits.dailyRequests > 0 && usage.requests >= limits.dailyRequests) {
+    return { allowed: false, message: `⚠️ 今日提问次数已达上限（${limits.dailyRequests} 次），请明天再试。`, retryAfter: secondsUntilTomorrow() };
+  }
+  if (limits.dailyTokens > 0 && usage.tokens >= limits.dailyTokens) {
+    return { allowed: false, message: `⚠️ 今日 token 用量已达上限（${limits.dailyTokens}），请明天再试。`, retryAfter: secondsUntilTomorrow() };
+  }
+
+  hits.push(now);
+  getHits().set(subject, hits);
+  store.subjects[subject] = { ...usage, requests: usage.requests + 1 };
+  schedulePersist();
+  return { allowed: true };
+}
+
+export async function recordTokenUsage(subject: string, tokens: number) {
+  if (tokens <= 0) return;
+  const store = await getUsageStore();
+  const usage = store.subjects[subject] || { requests: 0, tokens: 0 };
+  store.subjects[subject] = { ...usage, tokens: usage.tokens + tokens };
+  schedulePersist();
+}
+
+// 当天各计数对象的用量，按请求次数倒序
+export async function getUsageReport(): Promise<{ date: string; limits: UsageLimits; subjects: SubjectUsage[] }> {
+  const limits = getUsageLimits();
+  const store = await getUsageStore();
+  const now = Date.now();
+  const subjects = Object.entries(store.subjects).map(([subject, usage]) => {
+    const hits = recentHits(subject, limits.windows, now);
+    return {
+      subject,
+      ...usage,
+      windowCounts: limits.windows.map(w => hits.filter(time => now - time < w.windowSeconds * 1000).length),
+    };
+  });
+  return { date: store.date, limits, subjects: subjects.sort((a, b) => b.requests - a.requests) };
+}
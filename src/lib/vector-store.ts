@@ -1,6 +1,11 @@
 import { MemoryVectorStore } from 'langchain/vectorstores/memory';
 import { Document } from '@langchain/core/documents';
-import { getEmbeddings } from './embeddings';
+import { mkdir, readFile, rename, rm, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { getEmbeddings, EmbeddingProviderInfo } from './embeddings';
+import { KeywordIndex } from './keyword-index';
+import { detectFileType } from './loaders';
 
 // 文档元信息
 export interface DocumentMeta {
@@ -9,6 +14,16 @@ export interface DocumentMeta {
   uploadTime: string;
   chunkCount: number;
   fileType: string;
+  contentHash?: string;  // 原文件的 SHA-256，用于识别重复上传（早期文档没有）
+  path?: string;         // 含文件夹的相对路径，如 "人事/制度/员工手册.pdf"，仅压缩包或子目录中的文件有
+  access?: DocumentAccess; // 可见范围，未设置时所有人可见
+  mimeType?: string;     // 上传时的 MIME 类型，扩展名无法识别时重建索引据此选择加载器
+}
+
+// 文档的可见范围：列出的账号和分组成员可以检索到该文档，管理员始终可见
+export interface DocumentAccess {
+  users: string[];
+  groups: string[];
 }
 
 // RAG 配置参数
@@ -18,8 +33,18 @@ export interface RagConfig {
   chunkOverlap: number;  // 文档分割重叠大小
   model: string;         // LLM 模型名称
   temperature: number;   // 生成温度 (0-1)
+  historyTokenBudget: number; // 多轮对话中带入的历史消息 token 上限
+  retrievalMode: RetrievalMode; // 默认检索方式
+  hybridAlpha: number;   // 混合检索中向量结果的权重 (0-1)，其余为关键词权重
+  reranker: RerankerId;  // 二次重排序方式，none 表示不重排
+  rerankCandidateMultiplier: number; // 重排序时预取 topK 的倍数
+  minScore: number;      // 最低相似度 (0-1)，低于此值的片段丢弃；0 表示不过滤
+  answerCacheThreshold: number; // 新问题与已缓存问题的相似度达到此值时直接返回缓存的回答；0 表示不缓存
 }
 
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+export type RerankerId = 'none' | 'dashscope' | 'llm' | 'local';
+
 // 默认配置
 const DEFAULT_RAG_CONFIG: RagConfig = {
   topK: 5,
@@ -27,86 +52,470 @@ const DEFAULT_RAG_CONFIG: RagConfig = {
   chunkOverlap: 100,
   model: 'qwen-max',
   temperature: 0.3,
+  historyTokenBudget: 1500,
+  retrievalMode: 'hybrid',
+  hybridAlpha: 0.5,
+  reranker: 'none',
+  rerankCandidateMultiplier: 4,
+  minScore: 0,
+  answerCacheThreshold: 0.95,
 };
 
-// 根据文件名检测文件类型
-function detectFileType(filename: string): string {
-  const ext = filename.toLowerCase().split('.').pop() || '';
-  const typeMap: Record<string, string> = {
-    'pdf': 'PDF',
-    'txt': 'TXT',
-    'md': 'Markdown',
-    'markdown': 'Markdown',
-    'xlsx': 'Excel',
-    'xls': 'Excel',
-    'docx': 'Word',
-    'doc': 'Word',
-  };
-  return typeMap[ext] || 'Unknown';
+// 已入库的片段：保留向量，删除或重建存储时无需再次调用嵌入接口
+export interface StoredChunk {
+  docId: string;
+  doc: Document;
+  vector: number[];
+}
+
+// 知识库（集合）：各自拥有独立的片段、向量、文档列表和 RAG 配置
+export interface CollectionInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// 默认知识库，不可删除；未指定集合的请求都落在这里
+export const DEFAULT_COLLECTION_ID = 'default';
+const DEFAULT_COLLECTION_NAME = '默认知识库';
+
+// 持久化目录（与 docker-compose 中挂载的卷一致）
+const VECTOR_STORE_PATH = process.env.VECTOR_STORE_PATH || './.milvus';
+const COLLECTIONS_FILE = 'collections.json';
+const STORE_FILE_VERSION = 1;
+
+// 默认知识库沿用旧的 store.json，升级前的数据无需迁移
+function getStoreFilePath(collectionId: string) {
+  const filename = collectionId === DEFAULT_COLLECTION_ID ? 'store.json' : `store-${collectionId}.json`;
+  return join(VECTOR_STORE_PATH, filename);
+}
+
+// 集合的上传目录，重建索引时从这里重新读取原文件
+export function getUploadDir(collectionId: string = DEFAULT_COLLECTION_ID) {
+  const uploadDir = process.env.UPLOAD_DIR || './uploads';
+  return collectionId === DEFAULT_COLLECTION_ID ? uploadDir : join(uploadDir, collectionId);
+}
+
+// 其他集合的上传目录位于默认集合目录下；按集合 ID 的格式识别，已删除集合的残留目录也不会被当作默认集合的文档
+export function isCollectionUploadDir(name: string): boolean {
+  return /^col_[0-9a-z]+$/.test(name);
+}
+
+// 持久化到磁盘的知识库快照
+interface PersistedStore {
+  version: number;
+  savedAt: string;
+  embedding?: EmbeddingProviderInfo;
+  config: RagConfig;
+  documents: DocumentMeta[];
+  chunks: {
+    docId: string;
+    content: string;
+    metadata: Record<string, unknown>;
+    embedding: number[];
+  }[];
+}
+
+// 单个集合在内存中的状态
+interface CollectionState {
+  vectorStore: MemoryVectorStore;
+  storedDocuments: StoredChunk[];
+  keywordIndex: KeywordIndex;
+  documentMetas: DocumentMeta[];
+  config: RagConfig;
+  revision: number;  // 文档或可见范围每次变化时加一，答案缓存据此判断是否过期
+  persisting?: Promise<void>;
+  persistDeferred: number;   // 进行中的批量入库数，大于 0 时暂缓写盘
+  persistPending?: boolean;  // 暂缓期间有未保存的修改
 }
 
 // 使用全局变量避免热重载时丢失数据
 declare global {
-  var vectorStoreInstance: MemoryVectorStore | undefined;
-  var storedDocuments: { docId: string; doc: Document }[] | undefined;
-  var documentMetas: DocumentMeta[] | undefined;
-  var ragConfig: RagConfig | undefined;
+  var knowledgeCollections: Map<string, CollectionState> | undefined;
+  var collectionLoading: Map<string, Promise<CollectionState>> | undefined;
+  var collectionRegistry: CollectionInfo[] | undefined;
+  var collectionRegistryLoading: Promise<CollectionInfo[]> | undefined;
+  var collectionRegistryPersisting: Promise<void> | undefined;
+}
+
+// 读取集合列表，没有记录时只有默认知识库
+async function loadCollectionRegistry(): Promise<CollectionInfo[]> {
+  const filePath = join(VECTOR_STORE_PATH, COLLECTIONS_FILE);
+  let collections: CollectionInfo[] = [];
+  try {
+    collections = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[Collections] 读取 ${filePath} 失败:`, error);
+    }
+  }
+
+  if (!collections.some(c => c.id === DEFAULT_COLLECTION_ID)) {
+    collections.unshift({ id: DEFAULT_COLLECTION_ID, name: DEFAULT_COLLECTION_NAME, createdAt: new Date().toISOString() });
+  }
+  global.collectionRegistry = collections;
+  return collections;
+}
+
+// 获取所有集合
+export async function listCollections(): Promise<CollectionInfo[]> {
+  if (global.collectionRegistry) {
+    return global.collectionRegistry;
+  }
+  if (!global.collectionRegistryLoading) {
+    global.collectionRegistryLoading = loadCollectionRegistry().finally(() => {
+      global.collectionRegistryLoading = undefined;
+    });
+  }
+  return global.collectionRegistryLoading;
+}
+
+export async function findCollection(collectionId: string): Promise<CollectionInfo | undefined> {
+  return (await listCollections()).find(c => c.id === collectionId);
+}
+
+function persistCollectionRegistry(): Promise<void> {
+  const previous = global.collectionRegistryPersisting || Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    await mkdir(VECTOR_STORE_PATH, { recursive: true });
+    const filePath = join(VECTOR_STORE_PATH, COLLECTIONS_FILE);
+    const tmpPath = `${filePath}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(global.collectionRegistry || [], null, 2), 'utf-8');
+    await rename(tmpPath, filePath);
+  });
+  global.collectionRegistryPersisting = next;
+  return next;
 }
 
-// 获取/设置 RAG 配置
-export function getRagConfig(): RagConfig {
-  if (!global.ragConfig) {
-    global.ragConfig = { ...DEFAULT_RAG_CONFIG };
+// 新建集合
+export async function createCollection(name: string): Promise<CollectionInfo> {
+  const collections = await listCollections();
+  const collection: CollectionInfo = {
+    id: `col_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    createdAt: new Date().toISOString(),
+  };
+  collections.push(collection);
+  await persistCollectionRegistry();
+  console.log(`[Collections] 已创建: ${name} (${collection.id})`);
+  return collection;
+}
+
+// 重命名集合
+export async function renameCollection(collectionId: string, name: string): Promise<CollectionInfo | undefined> {
+  const collection = await findCollection(collectionId);
+  if (!collection) return undefined;
+  collection.name = name;
+  await persistCollectionRegistry();
+  return collection;
+}
+
+// 删除集合及其向量数据和上传目录中的原文件
+export async function deleteCollection(collectionId: string): Promise<boolean> {
+  if (collectionId === DEFAULT_COLLECTION_ID) {
+    throw new Error('The default collection cannot be deleted');
+  }
+  const collections = await listCollections();
+  if (!collections.some(c => c.id === collectionId)) return false;
+
+  // 等待正在进行的写入完成，避免删除后又被写回磁盘
+  const state = global.knowledgeCollections?.get(collectionId);
+  await state?.persisting?.catch(() => undefined);
+  global.knowledgeCollections?.delete(collectionId);
+
+  global.collectionRegistry = collections.filter(c => c.id !== collectionId);
+  await persistCollectionRegistry();
+
+  try {
+    await unlink(getStoreFilePath(collectionId));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
   }
-  return global.ragConfig;
+  await rm(getUploadDir(collectionId), { recursive: true, force: true });
+  console.log(`[Collections] 已删除: ${collectionId}`);
+  return true;
 }
 
-export function setRagConfig(config: Partial<RagConfig>) {
-  global.ragConfig = { ...getRagConfig(), ...config };
-  console.log('[RagConfig] 更新配置:', global.ragConfig);
-  return global.ragConfig;
+// 获取/设置 RAG 配置（需先从磁盘恢复，避免覆盖已保存的配置）
+export async function getRagConfig(collectionId: string = DEFAULT_COLLECTION_ID): Promise<RagConfig> {
+  return (await getCollectionState(collectionId)).config;
 }
 
-export async function getVectorStore() {
-  if (global.vectorStoreInstance) {
-    return global.vectorStoreInstance;
+export async function setRagConfig(config: Partial<RagConfig>, collectionId: string = DEFAULT_COLLECTION_ID) {
+  const state = await getCollectionState(collectionId);
+  state.config = { ...state.config, ...config };
+
+  // 分块不能超过嵌入模型的单条输入上限，否则超出部分会被截断
+  const { maxInputLength } = getEmbeddings().info;
+  if (state.config.chunkSize > maxInputLength) {
+    console.warn(`[RagConfig] chunkSize ${state.config.chunkSize} 超过嵌入模型上限，已调整为 ${maxInputLength}`);
+    state.config.chunkSize = maxInputLength;
+  }
+  console.log(`[RagConfig] 更新配置 (${collectionId}):`, state.config);
+  await persistVectorStore(collectionId);
+  return state.config;
+}
+
+// 从磁盘恢复集合：直接载入已保存的向量，不会重新调用嵌入接口
+async function loadCollection(collectionId: string): Promise<CollectionState> {
+  if (!(await findCollection(collectionId))) {
+    throw new Error(`Collection not found: ${collectionId}`);
   }
 
   const embeddings = getEmbeddings();
   const vectorStore = new MemoryVectorStore(embeddings);
-  
-  global.vectorStoreInstance = vectorStore;
-  global.storedDocuments = global.storedDocuments || [];
-  global.documentMetas = global.documentMetas || [];
-  
-  console.log('[VectorStore] 初始化向量存储');
-  return vectorStore;
+  const filePath = getStoreFilePath(collectionId);
+
+  let persisted: PersistedStore | null = null;
+  try {
+    persisted = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[VectorStore] 读取 ${filePath} 失败，将使用空知识库:`, error);
+    }
+  }
+
+  // 嵌入模型变更后旧向量无法与新查询向量比较，备份旧文件后从空知识库开始
+  if (persisted && !isSameEmbeddingSpace(persisted.embedding, embeddings.info)) {
+    const backupPath = `${filePath}.${Date.now()}.bak`;
+    await rename(filePath, backupPath);
+    console.error(
+      `[VectorStore] 嵌入模型已从 ${describeEmbedding(persisted.embedding)} 变更为 ${describeEmbedding(embeddings.info)}，` +
+      `已保存的向量不兼容，旧数据已备份到 ${backupPath}，请重建索引`,
+    );
+    persisted = null;
+  }
+
+  let storedDocuments: StoredChunk[] = [];
+  let documentMetas: DocumentMeta[] = [];
+  let config: RagConfig = { ...DEFAULT_RAG_CONFIG };
+  if (persisted && persisted.version === STORE_FILE_VERSION) {
+    storedDocuments = persisted.chunks.map((chunk, i) => ({
+      docId: chunk.docId,
+      doc: new Document({
+        // 早期保存的片段没有 chunkId，按位置补一个
+        pageContent: chunk.content,
+        metadata: { chunkId: `${chunk.docId}_${i}`, ...chunk.metadata, docId: chunk.docId },
+      }),
+      vector: chunk.embedding,
+    }));
+    if (storedDocuments.length > 0) {
+      await vectorStore.addVectors(
+        storedDocuments.map(d => d.vector),
+        storedDocuments.map(d => d.doc),
+      );
+    }
+
+    documentMetas = persisted.documents;
+    config = { ...DEFAULT_RAG_CONFIG, ...persisted.config };
+    console.log(`[VectorStore] 已从 ${filePath} 恢复 ${persisted.documents.length} 个文档，${storedDocuments.length} 个片段`);
+  } else {
+    console.log(`[VectorStore] 初始化向量存储 (${collectionId})`);
+  }
+
+  // 关键词索引不落盘，启动时由片段重建（只做分词，不调用接口）
+  const keywordIndex = new KeywordIndex();
+  storedDocuments.forEach(d => keywordIndex.add(d.doc.metadata.chunkId, d.docId, getIndexText(d.doc)));
+
+  const state: CollectionState = { vectorStore, storedDocuments, keywordIndex, documentMetas, config, revision: 0, persistDeferred: 0 };
+  global.knowledgeCollections = global.knowledgeCollections || new Map();
+  global.knowledgeCollections.set(collectionId, state);
+  return state;
+}
+
+// 旧版本文件没有记录嵌入模型，当时只支持 DashScope text-embedding-v3
+const LEGACY_EMBEDDING: Pick<EmbeddingProviderInfo, 'provider' | 'model' | 'dimension'> = {
+  provider: 'dashscope',
+  model: 'text-embedding-v3',
+  dimension: 1024,
+};
+
+function describeEmbedding(info: Pick<EmbeddingProviderInfo, 'provider' | 'model' | 'dimension'> = LEGACY_EMBEDDING) {
+  return `${info.provider}/${info.model} (${info.dimension} 维)`;
+}
+
+function isSameEmbeddingSpace(saved: EmbeddingProviderInfo | undefined, current: EmbeddingProviderInfo) {
+  const previous = saved || LEGACY_EMBEDDING;
+  return previous.provider === current.provider
+    && previous.model === current.model
+    && previous.dimension === current.dimension;
+}
+
+async function getCollectionState(collectionId: string): Promise<CollectionState> {
+  const loaded = global.knowledgeCollections?.get(collectionId);
+  if (loaded) {
+    return loaded;
+  }
+
+  // 并发请求共享同一次加载
+  global.collectionLoading = global.collectionLoading || new Map();
+  let loading = global.collectionLoading.get(collectionId);
+  if (!loading) {
+    loading = loadCollection(collectionId).finally(() => {
+      global.collectionLoading?.delete(collectionId);
+    });
+    global.collectionLoading.set(collectionId, loading);
+  }
+  return loading;
+}
+
+export async function getVectorStore(collectionId: string = DEFAULT_COLLECTION_ID) {
+  return (await getCollectionState(collectionId)).vectorStore;
+}
+
+// 将集合写入磁盘（先写临时文件再重命名，避免写到一半时崩溃导致文件损坏）
+async function writeVectorStore(collectionId: string, state: CollectionState) {
+  // 集合已被删除或重置为新对象时不再写回
+  if (global.knowledgeCollections?.get(collectionId) !== state) return;
+
+  const data: PersistedStore = {
+    version: STORE_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    embedding: getEmbeddings().info,
+    config: state.config,
+    documents: state.documentMetas,
+    chunks: state.storedDocuments.map(d => ({
+      docId: d.docId,
+      content: d.doc.pageContent,
+      metadata: d.doc.metadata,
+      embedding: d.vector,
+    })),
+  };
+
+  await mkdir(VECTOR_STORE_PATH, { recursive: true });
+  const filePath = getStoreFilePath(collectionId);
+  const tmpPath = `${filePath}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+  await rename(tmpPath, filePath);
+  console.log(`[VectorStore] 已保存到 ${filePath} (${data.chunks.length} 个片段)`);
+}
+
+// 串行化写入，保证后发起的保存不会被先发起的覆盖
+function queueWrite(collectionId: string, state: CollectionState): Promise<void> {
+  const previous = state.persisting || Promise.resolve();
+  const next = previous.catch(() => undefined).then(() => writeVectorStore(collectionId, state));
+  state.persisting = next;
+  return next;
+}
+
+export async function persistVectorStore(collectionId: string = DEFAULT_COLLECTION_ID): Promise<void> {
+  const state = await getCollectionState(collectionId);
+  if (state.persistDeferred > 0) {
+    state.persistPending = true;
+    return;
+  }
+  return queueWrite(collectionId, state);
+}
+
+// 批量入库（重建索引、多文件上传）期间暂缓写盘，期间的保存合并为结束时的一次，避免每个文件都重写整个集合文件
+// 返回结束暂缓的函数；可以嵌套，最后一个结束时才写入
+export async function deferPersist(collectionId: string = DEFAULT_COLLECTION_ID): Promise<() => Promise<void>> {
+  const state = await getCollectionState(collectionId);
+  state.persistDeferred++;
+  let released = false;
+  return async () => {
+    if (released) return;
+    released = true;
+    state.persistDeferred--;
+    if (state.persistDeferred === 0 && state.persistPending) {
+      state.persistPending = false;
+      await queueWrite(collectionId, state);
+    }
+  };
+}
+
+// 获取所有已入库的片段
+export async function getStoredChunks(collectionId: string = DEFAULT_COLLECTION_ID): Promise<StoredChunk[]> {
+  return (await getCollectionState(collectionId)).storedDocuments;
+}
+
+// 获取关键词索引
+export async function getKeywordIndex(collectionId: string = DEFAULT_COLLECTION_ID): Promise<KeywordIndex> {
+  return (await getCollectionState(collectionId)).keywordIndex;
 }
 
 // 获取所有文档元信息
-export function getDocumentMetas(): DocumentMeta[] {
-  return global.documentMetas || [];
+export async function getDocumentMetas(collectionId: string = DEFAULT_COLLECTION_ID): Promise<DocumentMeta[]> {
+  return (await getCollectionState(collectionId)).documentMetas;
+}
+
+// 知识库内容的版本号，上传、删除、重建索引或修改可见范围后变化
+export async function getCollectionRevision(collectionId: string = DEFAULT_COLLECTION_ID): Promise<number> {
+  return (await getCollectionState(collectionId)).revision;
 }
 
 // 获取知识库统计信息
-export function getKnowledgeBaseStats() {
-  const metas = global.documentMetas || [];
+export async function getKnowledgeBaseStats(
+  collectionId: string = DEFAULT_COLLECTION_ID,
+  visible: (meta: DocumentMeta) => boolean = () => true,
+) {
+  const state = await getCollectionState(collectionId);
+  const metas = state.documentMetas.filter(visible);
   const totalChunks = metas.reduce((sum, m) => sum + m.chunkCount, 0);
   return {
+    collectionId,
     documentCount: metas.length,
     totalChunks,
     documents: metas,
-    config: getRagConfig(),
+    config: state.config,
+    embedding: getEmbeddings().info,
   };
 }
 
-// 手动分批添加文档
-export async function addDocumentsToStore(docs: Document[], filename: string, fileType?: string) {
-  const vectorStore = await getVectorStore();
+// 嵌入和关键词索引使用的文本：带上章节标题路径，问“请假制度”也能命中该章节下的正文
+export function getIndexText(doc: Document): string {
+  const headingPath = doc.metadata.headingPath as string | undefined;
+  return headingPath ? `${headingPath}\n${doc.pageContent}` : doc.pageContent;
+}
+
+// 计算原文件的内容哈希
+export function computeContentHash(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+// 查找内容完全相同的已入库文档
+export async function findDocumentByHash(
+  contentHash: string,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+): Promise<DocumentMeta | undefined> {
+  return (await getDocumentMetas(collectionId)).find(m => m.contentHash === contentHash);
+}
+
+export interface AddDocumentOptions {
+  fileType?: string;
+  path?: string;
+  mimeType?: string;
+  collectionId?: string;
+  contentHash?: string;
+  access?: DocumentAccess;  // 未指定时沿用被替换的同名旧文档的可见范围
+  onProgress?: (done: number, total: number) => void;  // 每批向量化完成后回调
+  signal?: AbortSignal;  // 取消后在下一批开始前停止，知识库保持原样
+}
+
+export interface AddDocumentResult {
+  document: DocumentMeta;
+  replaced?: DocumentMeta;  // 被替换掉的同名旧文档
+  embeddingCache: { hits: number; misses: number };  // 嵌入缓存命中的片段数，命中的不调用嵌入接口
+}
+
+// 文档在集合中的唯一标识：有文件夹路径时按路径，否则按文件名
+function documentKey(meta: Pick<DocumentMeta, 'filename' | 'path'>) {
+  return meta.path || meta.filename;
+}
+
+// 手动分批添加文档；同名（同路径）文档已存在时整体替换其片段
+export async function addDocumentsToStore(
+  docs: Document[],
+  filename: string,
+  options: AddDocumentOptions = {},
+): Promise<AddDocumentResult> {
+  const { fileType, path, mimeType, contentHash, access, collectionId = DEFAULT_COLLECTION_ID, onProgress, signal } = options;
+  const state = await getCollectionState(collectionId);
   const embeddings = getEmbeddings();
   
-  const docId = `doc_${Date.now()}`;
-  const batchSize = 10;
+  // 同一毫秒内可能入库多个文件，加随机后缀避免 ID 冲突
+  const docId = `doc_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const batchSize = embeddings.info.batchSize;
   const totalBatches = Math.ceil(docs.length / batchSize);
   
   // 自动检测文件类型
@@ -114,97 +523,166 @@ export async function addDocumentsToStore(docs: Document[], filename: string, fi
   
   console.log(`[VectorStore] 开始添加 ${docs.length} 个文档 (${detectedFileType})，分 ${totalBatches} 批处理`);
   
+  // 先完成全部嵌入，中途失败时知识库保持原样
+  const newChunks: StoredChunk[] = [];
+  const embeddingCache = { hits: 0, misses: 0 };
+  onProgress?.(0, docs.length);
   for (let i = 0; i < docs.length; i += batchSize) {
+    signal?.throwIfAborted();
     const batch = docs.slice(i, i + batchSize);
     const batchNum = Math.floor(i / batchSize) + 1;
     
     try {
-      const texts = batch.map(doc => doc.pageContent);
-      const vectors = await embeddings.embedDocuments(texts);
+      const texts = batch.map(getIndexText);
+      const { vectors, cacheHits, cacheMisses } = await embeddings.embedDocumentsWithStats(texts);
+      embeddingCache.hits += cacheHits;
+      embeddingCache.misses += cacheMisses;
       
       for (let j = 0; j < batch.length; j++) {
-        // 添加文档ID到metadata
+        // 添加文档ID和片段ID到metadata
+        const chunkId = `${docId}_${i + j}`;
         const docWithMeta = new Document({
           pageContent: batch[j].pageContent,
-          metadata: { ...batch[j].metadata, docId, source: filename, fileType: detectedFileType },
+          metadata: {
+            ...batch[j].metadata,
+            docId,
+            chunkId,
+            source: filename,
+            fileType: detectedFileType,
+            ...(path ? { path } : {}),
+          },
         });
-        await vectorStore.addVectors([vectors[j]], [docWithMeta]);
-        
-        // 保存文档引用
-        global.storedDocuments = global.storedDocuments || [];
-        global.storedDocuments.push({ docId, doc: docWithMeta });
+        newChunks.push({ docId, doc: docWithMeta, vector: vectors[j] });
       }
       
       console.log(`[VectorStore] 批次 ${batchNum}/${totalBatches} 完成`);
+      onProgress?.(Math.min(i + batchSize, docs.length), docs.length);
     } catch (error) {
       console.error(`[VectorStore] 批次 ${batchNum} 失败:`, error);
       throw error;
     }
   }
   
-  // 保存文档元信息
-  global.documentMetas = global.documentMetas || [];
+  signal?.throwIfAborted();
+
   const docMeta: DocumentMeta = {
     id: docId,
     filename,
     uploadTime: new Date().toISOString(),
     chunkCount: docs.length,
     fileType: detectedFileType,
+    contentHash,
+    path,
+    mimeType,
   };
-  global.documentMetas.push(docMeta);
+
+  // 移除同名旧文档和写入新片段在同一个同步步骤内完成（addVectors 在首个 await 之前就已写入），
+  // 检索不会看到新旧片段并存或都缺失的中间状态
+  const replaced = state.documentMetas.find(m => documentKey(m) === documentKey(docMeta));
+  // 更新受限文档时不会因为漏填可见范围而变成所有人可见
+  const docAccess = access ?? replaced?.access;
+  if (docAccess) {
+    docMeta.access = docAccess;
+  }
+  if (replaced) {
+    removeDocumentFromState(state, replaced.id);
+  }
+  newChunks.forEach(c => {
+    state.storedDocuments.push(c);
+    state.keywordIndex.add(c.doc.metadata.chunkId, docId, getIndexText(c.doc));
+  });
+  state.documentMetas.push(docMeta);
+  state.revision++;
+  await state.vectorStore.addVectors(newChunks.map(c => c.vector), newChunks.map(c => c.doc));
+  if (replaced) {
+    console.log(`[VectorStore] 同名文档 ${documentKey(docMeta)} 已替换 (${replaced.id} → ${docId})`);
+  }
+  await persistVectorStore(collectionId);
   
-  console.log('[VectorStore] 所有文档添加完成，当前总数:', global.storedDocuments?.length || 0);
+  console.log('[VectorStore] 所有文档添加完成，当前总数:', state.storedDocuments.length);
   
-  return docMeta;
+  return { document: docMeta, replaced, embeddingCache };
+}
+
+// 从向量存储中移除某个文档的全部向量（原地过滤，不重新嵌入）
+function removeVectorsByDocId(vectorStore: MemoryVectorStore, docId: string) {
+  vectorStore.memoryVectors = vectorStore.memoryVectors.filter(v => v.metadata.docId !== docId);
+}
+
+// 从元信息、片段、向量和关键词索引中移除文档，剩余片段保持原有向量
+function removeDocumentFromState(state: CollectionState, docId: string) {
+  state.documentMetas = state.documentMetas.filter(m => m.id !== docId);
+  state.storedDocuments = state.storedDocuments.filter(d => d.docId !== docId);
+  removeVectorsByDocId(state.vectorStore, docId);
+  state.keywordIndex.removeDocument(docId);
 }
 
 // 删除单个文档
-export async function deleteDocument(docId: string) {
+export async function deleteDocument(docId: string, collectionId: string = DEFAULT_COLLECTION_ID) {
+  const state = await getCollectionState(collectionId);
   console.log(`[VectorStore] 开始删除文档: ${docId}`);
   
-  // 从元信息中删除
-  global.documentMetas = (global.documentMetas || []).filter(m => m.id !== docId);
+  removeDocumentFromState(state, docId);
+  state.revision++;
+  await persistVectorStore(collectionId);
   
-  // 从存储的文档中删除
-  const remainingDocs = (global.storedDocuments || []).filter(d => d.docId !== docId);
-  global.storedDocuments = remainingDocs;
-  
-  // 重建向量存储（MemoryVectorStore 不支持单独删除向量）
-  const embeddings = getEmbeddings();
-  const newVectorStore = new MemoryVectorStore(embeddings);
+  console.log(`[VectorStore] 文档删除完成，剩余: ${state.storedDocuments.length} 个片段`);
   
-  if (remainingDocs.length > 0) {
-    const batchSize = 10;
-    for (let i = 0; i < remainingDocs.length; i += batchSize) {
-      const batch = remainingDocs.slice(i, i + batchSize);
-      const texts = batch.map(d => d.doc.pageContent);
-      const vectors = await embeddings.embedDocuments(texts);
-      
-      for (let j = 0; j < batch.length; j++) {
-        await newVectorStore.addVectors([vectors[j]], [batch[j].doc]);
-      }
-    }
+  return { success: true, remainingChunks: state.storedDocuments.length };
+}
+
+// 整理可见范围：去掉空白和重复项，账号和分组都为空时返回 undefined（所有人可见）
+export function normalizeDocumentAccess(users: string[] = [], groups: string[] = []): DocumentAccess | undefined {
+  const clean = (names: string[]) => Array.from(new Set(names.map(name => name.trim()).filter(Boolean)));
+  const access = { users: clean(users), groups: clean(groups) };
+  return access.users.length > 0 || access.groups.length > 0 ? access : undefined;
+}
+
+// 修改文档的可见范围，access 为 undefined 时改为所有人可见
+export async function setDocumentAccess(
+  docId: string,
+  access: DocumentAccess | undefined,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+): Promise<DocumentMeta | undefined> {
+  const state = await getCollectionState(collectionId);
+  const meta = state.documentMetas.find(m => m.id === docId);
+  if (!meta) return undefined;
+
+  if (access) {
+    meta.access = access;
+  } else {
+    delete meta.access;
   }
-  
-  global.vectorStoreInstance = newVectorStore;
-  
-  console.log(`[VectorStore] 文档删除完成，剩余: ${remainingDocs.length} 个片段`);
-  
-  return { success: true, remainingChunks: remainingDocs.length };
+  state.revision++;
+  await persistVectorStore(collectionId);
+  console.log(`[VectorStore] 文档 ${meta.filename} 的可见范围已更新:`, access ?? '所有人');
+  return meta;
+}
+
+// 文档在集合中的唯一标识与元信息的对应关系，重建索引前保存，重建后据此恢复可见范围和 MIME 类型
+export async function getDocumentMetaMap(collectionId: string = DEFAULT_COLLECTION_ID): Promise<Map<string, DocumentMeta>> {
+  return new Map((await getDocumentMetas(collectionId)).map(meta => [documentKey(meta), meta]));
+}
+
+// 重置为空的向量存储并同步到磁盘（保留配置）
+async function resetVectorStore(collectionId: string) {
+  const state = await getCollectionState(collectionId);
+  state.vectorStore = new MemoryVectorStore(getEmbeddings());
+  state.storedDocuments = [];
+  state.keywordIndex = new KeywordIndex();
+  state.documentMetas = [];
+  state.revision++;
+  await persistVectorStore(collectionId);
 }
 
 // 清空知识库
-export async function clearKnowledgeBase() {
-  global.vectorStoreInstance = undefined;
-  global.storedDocuments = [];
-  global.documentMetas = [];
-  console.log('[VectorStore] 知识库已清空');
+export async function clearKnowledgeBase(collectionId: string = DEFAULT_COLLECTION_ID) {
+  await resetVectorStore(collectionId);
+  console.log(`[VectorStore] 知识库已清空 (${collectionId})`);
 }
 
 // 清空所有文档（用于重新索引前）
-export async function clearAllDocuments() {
-  global.vectorStoreInstance = undefined;
-  global.storedDocuments = [];
-  global.documentMetas = [];
-  console.log('[VectorStore] 所有文档已清空，准备重新索引');
+export async function clearAllDocuments(collectionId: string = DEFAULT_COLLECTION_ID) {
+  await resetVectorStore(collectionId);
+  console.log(`[VectorStore] 所有文档已清空，准备重新索引 (${collectionId})`);
 }
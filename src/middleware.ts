@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthDisabled, readApiKey, readSessionToken } from '@/lib/credentials';
+
+// 所有 /api/* 请求的统一入口：未携带会话 Cookie 或 API Key 的请求直接返回 401，
+// 新增的路由即使忘记包裹 withAuth 也不会公开；凭证是否有效、角色是否足够仍由各路由的 withAuth 校验
+// 运行在 Edge 环境，不能引用 auth.ts（依赖 crypto 和 fs）
+
+// 不需要凭证的路由：登录、退出登录和查询登录状态
+const PUBLIC_PATHS = ['/api/auth'];
+
+export function middleware(req: NextRequest) {
+  if (isAuthDisabled() || PUBLIC_PATHS.includes(req.nextUrl.pathname)) {
+    return NextResponse.next();
+  }
+  if (!readApiKey(req) && !readSessionToken(req)) {
+    return NextResponse.json({ error: '未登录或凭证无效' }, { status: 401 });
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
@@ -1,5 +1,4 @@
 // 第三方模块类型声明
 declare module 'pdf-parse';
 declare module 'mammoth';
-declare module 'xlsx';
 